@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { CHUNK_TYPES, ChunkType, getChunkTypeStyle } from "@/lib/chunkTypes";
+
+interface AddChunkFormProps {
+  onSubmit: (chunkType: ChunkType, text: string) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+const AddChunkForm: React.FC<AddChunkFormProps> = ({
+  onSubmit,
+  onCancel,
+  className,
+}) => {
+  const [chunkType, setChunkType] = useState<ChunkType>("text");
+  const [text, setText] = useState("");
+
+  const handleSubmit = () => {
+    if (text.trim()) {
+      onSubmit(chunkType, text.trim());
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "w-80 space-y-2 rounded-md border bg-popover text-popover-foreground shadow-md p-3",
+        className
+      )}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          onCancel();
+        } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          handleSubmit();
+        }
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Add missing chunk</h4>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={onCancel}
+          title="Cancel"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <Select
+        value={chunkType}
+        onValueChange={(value) => setChunkType(value as ChunkType)}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CHUNK_TYPES.map((type) => (
+            <SelectItem key={type} value={type} className="text-xs">
+              <span className="flex items-center">
+                <span
+                  className={cn(
+                    "h-2 w-2 rounded-full mr-2",
+                    getChunkTypeStyle(type).swatch
+                  )}
+                />
+                {getChunkTypeStyle(type).label}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Text of the region, in markdown"
+        rows={4}
+        className="text-xs"
+        autoFocus
+      />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          className="h-7 text-xs"
+          onClick={handleSubmit}
+          disabled={!text.trim()}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add chunk
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AddChunkForm;
@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { CheckCircle2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Approval } from "@/lib/validation";
+
+interface ApprovalControlProps {
+  approval: Approval | null;
+  // Failing fields of the selected template, and problems with the template
+  issueCount: number;
+  onApprove: (overrideReason: string | null) => void;
+  onRevoke: () => void;
+}
+
+const ApprovalControl: React.FC<ApprovalControlProps> = ({
+  approval,
+  issueCount,
+  onApprove,
+  onRevoke,
+}) => {
+  const [isOverriding, setIsOverriding] = useState(false);
+  const [reason, setReason] = useState("");
+
+  if (approval) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-green-600 dark:text-green-400"
+        onClick={onRevoke}
+        title={
+          approval.overrideReason
+            ? `Approved with ${approval.issueCount} open issues: ${approval.overrideReason}\nClick to withdraw`
+            : "Approved. Click to withdraw"
+        }
+      >
+        <CheckCircle2 className="h-4 w-4 mr-1" />
+        {approval.overrideReason ? "Approved (override)" : "Approved"}
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          issueCount > 0 ? setIsOverriding(true) : onApprove(null)
+        }
+        title={
+          issueCount > 0
+            ? `${issueCount} validation issues. Fix them, or approve with a reason`
+            : "Approve the extraction"
+        }
+      >
+        {issueCount > 0 ? (
+          <ShieldAlert className="h-4 w-4 mr-1 text-destructive" />
+        ) : (
+          <ShieldCheck className="h-4 w-4 mr-1" />
+        )}
+        Approve
+      </Button>
+
+      <AlertDialog
+        open={isOverriding}
+        onOpenChange={(open) => {
+          setIsOverriding(open);
+          if (!open) setReason("");
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {issueCount} validation {issueCount === 1 ? "issue" : "issues"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Resolve the flagged fields and template problems before approving,
+              or give a reason to approve this extraction anyway.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the override"
+            rows={3}
+            autoFocus
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim()}
+              onClick={() => {
+                onApprove(reason.trim());
+                setIsOverriding(false);
+                setReason("");
+              }}
+            >
+              Approve anyway
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ApprovalControl;
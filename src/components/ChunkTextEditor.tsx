@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertTriangle, Check, Eye, EyeOff, Scissors, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "@/components/ui/markdown";
+import { cn } from "@/lib/utils";
+import { findTableIssues } from "@/lib/tables";
+import { DocumentChunk } from "@/services/documentService";
+
+interface ChunkTextEditorProps {
+  chunk: DocumentChunk;
+  // Text as it was extracted, when it has been corrected since
+  originalText?: string;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+  // Cut the chunk in two at an offset in the (possibly edited) text
+  onSplit?: (text: string, offset: number) => void;
+}
+
+const ChunkTextEditor: React.FC<ChunkTextEditorProps> = ({
+  chunk,
+  originalText,
+  onSave,
+  onCancel,
+  onSplit,
+}) => {
+  const [text, setText] = useState(chunk.text);
+  const [showPreview, setShowPreview] = useState(chunk.chunk_type === "table");
+  const [cursor, setCursor] = useState(chunk.text.length);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }, []);
+
+  // Tables are edited as source, so point out rows that lost or gained a cell
+  const tableIssues = findTableIssues(text);
+  const isTable =
+    chunk.chunk_type === "table" || /<table[\s>]|^\s*\|/m.test(text);
+
+  const handleSave = () => {
+    if (text !== chunk.text) {
+      onSave(text);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="space-y-2 mt-3"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          onCancel();
+        } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          handleSave();
+        }
+      }}
+    >
+      <Textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+        rows={Math.min(20, Math.max(4, text.split("\n").length + 1))}
+        spellCheck={!isTable}
+        className={cn(
+          "font-mono text-xs",
+          isTable && "whitespace-pre overflow-x-auto"
+        )}
+      />
+
+      {tableIssues.length > 0 && (
+        <div className="flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+          <span>{tableIssues.join("; ")}</span>
+        </div>
+      )}
+
+      {showPreview && (
+        <div className="rounded-md border border-dashed border-border p-2 overflow-auto">
+          <Markdown content={text} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => setShowPreview((prev) => !prev)}
+          >
+            {showPreview ? (
+              <EyeOff className="h-3 w-3 mr-1" />
+            ) : (
+              <Eye className="h-3 w-3 mr-1" />
+            )}
+            Preview
+          </Button>
+          {originalText !== undefined && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => setText(originalText)}
+              disabled={text === originalText}
+            >
+              Restore extracted text
+            </Button>
+          )}
+          {onSplit && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => onSplit(text, cursor)}
+              disabled={
+                !text.slice(0, cursor).trim() || !text.slice(cursor).trim()
+              }
+              title="Split this chunk in two at the cursor"
+            >
+              <Scissors className="h-3 w-3 mr-1" />
+              Split at cursor
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={onCancel}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={handleSave}>
+            <Check className="h-3 w-3 mr-1" />
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChunkTextEditor;
@@ -0,0 +1,123 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import {
+  CHUNK_TYPES,
+  CHUNK_TYPE_STYLES,
+  ChunkType,
+  MARGINALIA_TYPES,
+} from "@/lib/chunkTypes";
+import { DocumentChunk } from "@/services/documentService";
+
+interface ChunkTypeLegendProps {
+  chunks: DocumentChunk[];
+  hiddenTypes: ChunkType[];
+  onHiddenTypesChange: (types: ChunkType[]) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const ChunkTypeLegend: React.FC<ChunkTypeLegendProps> = ({
+  chunks,
+  hiddenTypes,
+  onHiddenTypesChange,
+  onClose,
+  className,
+}) => {
+  const isMarginaliaHidden = MARGINALIA_TYPES.every((type) =>
+    hiddenTypes.includes(type)
+  );
+
+  const toggleType = (type: ChunkType, visible: boolean) => {
+    onHiddenTypesChange(
+      visible
+        ? hiddenTypes.filter((hidden) => hidden !== type)
+        : [...hiddenTypes, type]
+    );
+  };
+
+  const toggleMarginalia = () => {
+    onHiddenTypesChange(
+      isMarginaliaHidden
+        ? hiddenTypes.filter((type) => !MARGINALIA_TYPES.includes(type))
+        : Array.from(new Set([...hiddenTypes, ...MARGINALIA_TYPES]))
+    );
+  };
+
+  return (
+    <div
+      className={cn(
+        "w-60 rounded-md border bg-popover text-popover-foreground shadow-md p-3",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium">Chunk types</h4>
+        {onClose && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={onClose}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {CHUNK_TYPES.map((type) => {
+          const count = chunks.filter(
+            (chunk) => chunk.chunk_type === type
+          ).length;
+
+          return (
+            <label
+              key={type}
+              className="flex items-center justify-between gap-2 text-sm cursor-pointer"
+            >
+              <span className="flex items-center gap-2">
+                <span
+                  className={cn(
+                    "h-3 w-3 rounded-sm",
+                    CHUNK_TYPE_STYLES[type].swatch
+                  )}
+                />
+                {CHUNK_TYPE_STYLES[type].label}
+                <span className="text-xs text-muted-foreground">{count}</span>
+              </span>
+              <Switch
+                checked={!hiddenTypes.includes(type)}
+                onCheckedChange={(checked) => toggleType(type, checked)}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 h-7 text-xs"
+          onClick={toggleMarginalia}
+        >
+          {isMarginaliaHidden ? "Show" : "Hide"} marginalia
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 h-7 text-xs"
+          onClick={() => onHiddenTypesChange([])}
+          disabled={hiddenTypes.length === 0}
+        >
+          Show all
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ChunkTypeLegend;
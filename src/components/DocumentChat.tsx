@@ -1,20 +1,28 @@
 import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send, MessageSquare, Loader2 } from "lucide-react";
+import { Send, MessageSquare, Loader2, Paperclip, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { Markdown } from "@/components/ui/markdown";
-import { ChatResponse, DocumentResponse } from "@/services/documentService";
+import {
+  ChatResponse,
+  DocumentChunk,
+  DocumentResponse,
+} from "@/services/documentService";
 
 interface DocumentChatProps {
   documentData: DocumentResponse;
   onSendChatMessage: (
     message: string,
-    documentData: DocumentResponse
+    documentData: DocumentResponse,
+    contextChunks?: DocumentChunk[]
   ) => Promise<ChatResponse>;
   initialSuggestedQuestions?: string[];
   isLoadingQuestions?: boolean;
+  // Chunks sent along with the next message, e.g. from a region selection
+  attachedChunks?: DocumentChunk[];
+  onClearAttachedChunks?: () => void;
 }
 
 const DocumentChat: React.FC<DocumentChatProps> = ({
@@ -26,6 +34,8 @@ const DocumentChat: React.FC<DocumentChatProps> = ({
     "What are the key details in this document?",
   ],
   isLoadingQuestions = false,
+  attachedChunks = [],
+  onClearAttachedChunks,
 }) => {
   const [chatMessage, setChatMessage] = useState("");
   const [chatMessages, setChatMessages] = useState<
@@ -53,6 +63,16 @@ const DocumentChat: React.FC<DocumentChatProps> = ({
     }
   }, [initialSuggestedQuestions]);
 
+  // Start a question about newly attached chunks
+  useEffect(() => {
+    if (attachedChunks.length > 0) {
+      setChatMessage(
+        (prev) => prev || "What does this region of the page say?"
+      );
+      inputRef.current?.focus();
+    }
+  }, [attachedChunks]);
+
   const handleSendChatMessage = async () => {
     if (!chatMessage.trim() || !onSendChatMessage) return;
 
@@ -67,7 +87,12 @@ const DocumentChat: React.FC<DocumentChatProps> = ({
 
     try {
       // Call the API to get response, passing document data
-      const response = await onSendChatMessage(userMessage, documentData);
+      const response = await onSendChatMessage(
+        userMessage,
+        documentData,
+        attachedChunks.length > 0 ? attachedChunks : undefined
+      );
+      onClearAttachedChunks?.();
 
       // Add assistant response to chat
       if (response && response.message) {
@@ -224,6 +249,26 @@ const DocumentChat: React.FC<DocumentChatProps> = ({
       </div>
 
       <div className="p-4 border-t border-border shrink-0">
+        {attachedChunks.length > 0 && (
+          <div className="flex items-center mb-2 text-xs text-muted-foreground">
+            <span className="flex items-center rounded-full bg-muted px-2 py-1">
+              <Paperclip className="h-3 w-3 mr-1" />
+              {attachedChunks.length}{" "}
+              {attachedChunks.length === 1 ? "chunk" : "chunks"} from the
+              selected region attached
+              {onClearAttachedChunks && (
+                <button
+                  type="button"
+                  onClick={onClearAttachedChunks}
+                  className="ml-1 hover:text-foreground"
+                  title="Remove attachment"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          </div>
+        )}
         <div className="flex space-x-2">
           <Input
             ref={inputRef}
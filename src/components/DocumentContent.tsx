@@ -16,11 +16,56 @@ import {
   Layers,
   Send,
   Check,
+  GripVertical,
+  Pencil,
+  ListChecks,
+  Combine,
+  ChevronDown,
+  Trash2,
+  RotateCcw,
+  TableCellsMerge,
+  ListTree,
+  Receipt,
+  FlaskConical,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Markdown } from "@/components/ui/markdown";
 import DocumentChat from "@/components/DocumentChat";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  CHUNK_TYPES,
+  ChunkType,
+  getChunkTypeStyle,
+  getFigureNumber,
+} from "@/lib/chunkTypes";
+import { SearchHit } from "@/lib/search";
+import DocumentSearch from "@/components/DocumentSearch";
+import { useTextHighlight } from "@/hooks/use-text-highlight";
+import ChunkTextEditor from "@/components/ChunkTextEditor";
+import TableGridEditor from "@/components/TableGridEditor";
+import FormFieldsPanel from "@/components/FormFieldsPanel";
+import TemplatePanel from "@/components/TemplatePanel";
+import InvoicePanel from "@/components/InvoicePanel";
+import LabReportPanel from "@/components/LabReportPanel";
+import { ChunkCorrection } from "@/lib/documentEdits";
+import { parseTable } from "@/lib/tables";
+import { FormField } from "@/lib/formFields";
+import { RegionSelection } from "@/lib/geometry";
+import { ExtractionTemplate, TemplateResult } from "@/lib/templates";
+import { describeIssues, ValidationIssue } from "@/lib/validation";
+import { downloadFile } from "@/lib/download";
+import { Invoice } from "@/lib/invoice";
+import { LabResult } from "@/lib/labReport";
 
 interface DocumentContentProps {
   chunks: DocumentChunk[];
@@ -32,13 +77,50 @@ interface DocumentContentProps {
   onChatWithDocument?: () => void;
   onSendChatMessage?: (
     message: string,
-    documentData: DocumentResponse
+    documentData: DocumentResponse,
+    contextChunks?: DocumentChunk[]
   ) => Promise<ChatResponse>;
   isChatActive?: boolean;
   processingError?: string | null;
   documentId?: string;
   documentData: DocumentResponse;
   suggestedQuestions?: string[];
+  hiddenChunkTypes?: ChunkType[];
+  onHiddenChunkTypesChange?: (types: ChunkType[]) => void;
+  searchQuery?: string;
+  onSearchQueryChange?: (query: string) => void;
+  searchHits?: SearchHit[];
+  attachedChunks?: DocumentChunk[];
+  onClearAttachedChunks?: () => void;
+  onMoveChunk?: (chunkId: string, beforeChunkId: string | null) => void;
+  onChunkTextChange?: (chunkId: string, text: string) => void;
+  onChunkTableChange?: (chunkId: string, text: string) => void;
+  // Tables split across pages that can be stitched back together
+  continuedTableCount?: number;
+  onStitchTables?: () => void;
+  onFormFieldChange?: (field: FormField, value: string | boolean) => void;
+  // Region drawn on the page, offered when editing templates
+  selectedRegion?: RegionSelection | null;
+  templates?: ExtractionTemplate[];
+  template?: ExtractionTemplate | null;
+  templateResult?: TemplateResult | null;
+  onTemplateSelect?: (templateId: string | null) => void;
+  onTemplateSave?: (template: ExtractionTemplate) => void;
+  onTemplateDelete?: (templateId: string) => void;
+  // Fields failing validation, by the chunk they were read from
+  validationIssues?: Record<string, ValidationIssue[]>;
+  // Set when the document reads as an invoice
+  invoice?: Invoice | null;
+  // Results read from lab report tables; empty for other documents
+  labResults?: LabResult[];
+  chunkCorrections?: Record<string, ChunkCorrection>;
+  onMergeChunks?: (chunkIds: string[]) => void;
+  onSplitChunk?: (chunkId: string, text: string, offset: number) => void;
+  onChunkTypeChange?: (chunkId: string, chunkType: ChunkType) => void;
+  onDeleteChunk?: (chunkId: string) => void;
+  onRevertChunk?: (chunkId: string) => void;
+  // Extracted chunks that have been edited since
+  modifiedChunkIds?: string[];
 }
 
 const DocumentContent: React.FC<DocumentContentProps> = ({
@@ -55,8 +137,39 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
   documentId,
   documentData,
   suggestedQuestions = [],
+  hiddenChunkTypes = [],
+  onHiddenChunkTypesChange,
+  searchQuery = "",
+  onSearchQueryChange,
+  searchHits = [],
+  attachedChunks = [],
+  onClearAttachedChunks,
+  onMoveChunk,
+  onChunkTextChange,
+  onChunkTableChange,
+  continuedTableCount = 0,
+  onStitchTables,
+  onFormFieldChange,
+  selectedRegion,
+  templates = [],
+  template = null,
+  templateResult = null,
+  onTemplateSelect,
+  onTemplateSave,
+  onTemplateDelete,
+  validationIssues = {},
+  invoice = null,
+  labResults = [],
+  chunkCorrections = {},
+  onMergeChunks,
+  onSplitChunk,
+  onChunkTypeChange,
+  onDeleteChunk,
+  onRevertChunk,
+  modifiedChunkIds = [],
 }) => {
   const selectedChunkRef = useRef<HTMLDivElement>(null);
+  const extractedContentRef = useRef<HTMLDivElement>(null);
   const [activeTab, setActiveTab] = useState<string>("parsed");
   const [viewMode, setViewMode] = useState<"blocks" | "combined">("blocks");
   const [chatMessage, setChatMessage] = useState("");
@@ -70,6 +183,14 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
   const [copyingChunks, setCopyingChunks] = useState<Record<string, boolean>>(
     {}
   );
+  const [draggedChunkId, setDraggedChunkId] = useState<string | null>(null);
+  const [editingChunkId, setEditingChunkId] = useState<string | null>(null);
+  // Blocks ticked for merging, only while selecting
+  const [mergeSelection, setMergeSelection] = useState<string[] | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    chunkId: string;
+    position: "before" | "after";
+  } | null>(null);
 
   useEffect(() => {
     if (selectedChunkId && selectedChunkRef.current) {
@@ -81,12 +202,18 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
   }, [selectedChunkId]);
 
   useEffect(() => {
-    if (isChatActive) {
-      setActiveTab("chat");
-    } else {
-      setActiveTab("parsed");
-    }
-  }, [isChatActive, documentData]);
+    // Leaving chat from another tab keeps that tab open; the invoice and lab
+    // report tabs close when the document has none
+    setActiveTab((tab) =>
+      isChatActive
+        ? "chat"
+        : tab === "chat" ||
+          (tab === "invoice" && !invoice) ||
+          (tab === "lab" && labResults.length === 0)
+        ? "parsed"
+        : tab
+    );
+  }, [isChatActive, documentData, invoice, labResults]);
 
   useEffect(() => {
     // Scroll to bottom of chat when new messages are added
@@ -103,6 +230,20 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
     }
   }, [isChatActive, documentData, chatMessages.length]);
 
+  useTextHighlight(
+    extractedContentRef,
+    searchQuery,
+    "search-hit",
+    // The combined markdown changes whenever chunks are edited or reordered
+    `${activeTab}-${viewMode}-${markdown}-${hiddenChunkTypes.join()}`
+  );
+
+  const handleSearchHitSelect = (hit: SearchHit) => {
+    // Only the block view can scroll to and outline a single chunk
+    setViewMode("blocks");
+    onChunkSelect(hit.chunkId);
+  };
+
   const copyToClipboard = (text: string, chunkId?: string) => {
     // More comprehensive markdown cleaning for plain text
     const plainText = text
@@ -150,14 +291,51 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
       });
   };
 
-  const downloadAsText = (content: string, filename: string) => {
-    const element = document.createElement("a");
-    const file = new Blob([content], { type: "text/plain" });
-    element.href = URL.createObjectURL(file);
-    element.download = filename;
-    document.body.appendChild(element);
-    element.click();
-    document.body.removeChild(element);
+  const handleBlockDragOver = (
+    e: React.DragEvent<HTMLDivElement>,
+    chunkId: string
+  ) => {
+    if (!draggedChunkId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    // Drop above or below the block depending on which half is hovered
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position =
+      e.clientY < rect.top + rect.height / 2 ? "before" : "after";
+    if (dropTarget?.chunkId !== chunkId || dropTarget.position !== position) {
+      setDropTarget({ chunkId, position });
+    }
+  };
+
+  const handleBlockDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (draggedChunkId && dropTarget && onMoveChunk) {
+      const targetIndex = chunks.findIndex(
+        (chunk) => chunk.chunk_id === dropTarget.chunkId
+      );
+      const beforeChunkId =
+        dropTarget.position === "before"
+          ? dropTarget.chunkId
+          : chunks[targetIndex + 1]?.chunk_id ?? null;
+      onMoveChunk(draggedChunkId, beforeChunkId);
+    }
+    setDraggedChunkId(null);
+    setDropTarget(null);
+  };
+
+  const toggleMergeSelection = (chunkId: string) => {
+    setMergeSelection((prev) =>
+      prev?.includes(chunkId)
+        ? prev.filter((id) => id !== chunkId)
+        : [...(prev || []), chunkId]
+    );
+  };
+
+  const handleMergeSelection = () => {
+    if (mergeSelection && onMergeChunks) {
+      onMergeChunks(mergeSelection);
+    }
+    setMergeSelection(null);
   };
 
   const handleChatButtonClick = () => {
@@ -255,6 +433,69 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
     }
   };
 
+  const renderTypeBadge = (chunk: DocumentChunk, index: number) => {
+    const badge = (
+      <>
+        <span
+          className={cn(
+            "h-2 w-2 rounded-full",
+            getChunkTypeStyle(chunk.chunk_type).swatch
+          )}
+        />
+        {getFigureNumber(chunks, chunk.chunk_id, chunk.chunk_type) ||
+          `${index + 1} - ${chunk.chunk_type}`}
+      </>
+    );
+    const badgeClassName =
+      "flex items-center gap-1.5 text-xs px-2 py-0.5 rounded-full bg-secondary text-secondary-foreground";
+
+    if (!onChunkTypeChange) {
+      return <span className={badgeClassName}>{badge}</span>;
+    }
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            onClick={(e) => e.stopPropagation()}
+            className={cn(badgeClassName, "hover:bg-secondary/80")}
+            title="Change chunk type"
+          >
+            {badge}
+            <ChevronDown className="h-3 w-3" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel className="text-xs">Chunk type</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup
+            value={chunk.chunk_type}
+            onValueChange={(value) =>
+              onChunkTypeChange(chunk.chunk_id, value as ChunkType)
+            }
+          >
+            {CHUNK_TYPES.map((type) => (
+              <DropdownMenuRadioItem
+                key={type}
+                value={type}
+                className="text-xs"
+              >
+                <span
+                  className={cn(
+                    "h-2 w-2 rounded-full mr-2",
+                    getChunkTypeStyle(type).swatch
+                  )}
+                />
+                {getChunkTypeStyle(type).label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
   const renderContent = () => {
     if (isProcessing) {
       return (
@@ -287,6 +528,15 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
 
     return (
       <div className="space-y-4">
+        {onSearchQueryChange && (
+          <DocumentSearch
+            query={searchQuery}
+            onQueryChange={onSearchQueryChange}
+            hits={searchHits}
+            onHitSelect={handleSearchHitSelect}
+          />
+        )}
+
         <div className="flex justify-between items-center mb-4">
           <div className="flex items-center gap-2">
             <Button
@@ -305,12 +555,33 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
               <FileText className="h-4 w-4 mr-1" />
               Combined View
             </Button>
+            {onMergeChunks && viewMode === "blocks" && (
+              <Button
+                size="sm"
+                variant={mergeSelection ? "default" : "outline"}
+                onClick={() => setMergeSelection((prev) => (prev ? null : []))}
+              >
+                <ListChecks className="h-4 w-4 mr-1" />
+                Select
+              </Button>
+            )}
+            {onStitchTables && continuedTableCount > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onStitchTables}
+                title="Merge tables that continue across pages into one table each"
+              >
+                <TableCellsMerge className="h-4 w-4 mr-1" />
+                Stitch Tables ({continuedTableCount})
+              </Button>
+            )}
           </div>
           {markdown && (
             <Button
               size="sm"
               variant="outline"
-              onClick={() => downloadAsText(markdown, "document-extraction.md")}
+              onClick={() => downloadFile(markdown, "document-extraction.md")}
             >
               <FileDown className="h-4 w-4 mr-1" />
               Download
@@ -324,61 +595,274 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
           </div>
         )}
 
+        {viewMode === "blocks" && hiddenChunkTypes.length > 0 && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground rounded-md bg-muted/50 px-3 py-2">
+            <span>
+              {
+                chunks.filter((chunk) =>
+                  hiddenChunkTypes.includes(chunk.chunk_type)
+                ).length
+              }{" "}
+              blocks hidden by the chunk type filter
+            </span>
+            {onHiddenChunkTypesChange && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-xs"
+                onClick={() => onHiddenChunkTypesChange([])}
+              >
+                Show all
+              </Button>
+            )}
+          </div>
+        )}
+
         {viewMode === "blocks" && (
           <div className="space-y-4">
-            {chunks.map((chunk, index) => (
-              <div
-                key={chunk.chunk_id}
-                ref={
-                  selectedChunkId === chunk.chunk_id ? selectedChunkRef : null
-                }
-                className={cn(
-                  "p-3 rounded-md border cursor-pointer transition-all",
-                  selectedChunkId === chunk.chunk_id
-                    ? "border-primary bg-primary/5"
-                    : "border-border hover:border-primary/50 hover:bg-muted/50",
-                  chunk.chunk_type === "table" && "overflow-auto"
-                )}
-                onClick={() => onChunkSelect(chunk.chunk_id)}
-              >
-                <div className="flex justify-between items-start mb-1">
-                  <span className="text-xs px-2 py-0.5 rounded-full bg-secondary text-secondary-foreground">
-                    {chunk.chunk_type === "figure"
-                      ? `Figure ${index + 1}`
-                      : chunk.chunk_type === "table" 
-                        ? `Table ${index + 1}`
-                        : `${index + 1} - ${chunk.chunk_type}`}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-6 w-6"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      copyToClipboard(chunk.text, chunk.chunk_id);
-                    }}
-                    disabled={copyingChunks[chunk.chunk_id]}
-                  >
-                    {copyingChunks[chunk.chunk_id] ? (
-                      <Check className="h-3 w-3 text-green-500" />
-                    ) : (
-                      <Copy className="h-3 w-3" />
-                    )}
-                  </Button>
-                </div>
-                <div className={cn(
-                  "whitespace-pre-wrap break-words mt-3", 
-                  chunk.chunk_type === "table" && "min-w-[30rem]"
-                )}>
-                  <Markdown content={chunk.text} />
-                </div>
-                {chunk.grounding && chunk.grounding.length > 0 && (
-                  <div className="mt-2 text-xs text-muted-foreground">
-                    Located on page {chunk.grounding[0].page + 1}
+            {chunks.map((chunk, index) =>
+              hiddenChunkTypes.includes(chunk.chunk_type) ? null : (
+                <div
+                  key={chunk.chunk_id}
+                  data-chunk-id={chunk.chunk_id}
+                  ref={
+                    selectedChunkId === chunk.chunk_id ? selectedChunkRef : null
+                  }
+                  className={cn(
+                    "relative p-3 rounded-md border cursor-pointer transition-all",
+                    selectedChunkId === chunk.chunk_id
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:border-primary/50 hover:bg-muted/50",
+                    chunk.chunk_type === "table" && "overflow-auto",
+                    draggedChunkId === chunk.chunk_id && "opacity-50",
+                    dropTarget?.chunkId === chunk.chunk_id &&
+                      draggedChunkId !== chunk.chunk_id &&
+                      (dropTarget.position === "before"
+                        ? "shadow-[0_-3px_0_0_hsl(var(--primary))]"
+                        : "shadow-[0_3px_0_0_hsl(var(--primary))]")
+                  )}
+                  onClick={() =>
+                    mergeSelection
+                      ? toggleMergeSelection(chunk.chunk_id)
+                      : onChunkSelect(chunk.chunk_id)
+                  }
+                  onDragOver={(e) => handleBlockDragOver(e, chunk.chunk_id)}
+                  onDrop={handleBlockDrop}
+                >
+                  <div className="flex justify-between items-start mb-1">
+                    <div className="flex items-center gap-1">
+                      {mergeSelection && (
+                        <Checkbox
+                          checked={mergeSelection.includes(chunk.chunk_id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onCheckedChange={() =>
+                            toggleMergeSelection(chunk.chunk_id)
+                          }
+                          className="mr-1"
+                          aria-label="Select block"
+                        />
+                      )}
+                      {onMoveChunk && (
+                        <span
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = "move";
+                            e.dataTransfer.setData(
+                              "text/plain",
+                              chunk.chunk_id
+                            );
+                            const block =
+                              e.currentTarget.closest("[data-chunk-id]");
+                            if (block) {
+                              e.dataTransfer.setDragImage(block, 0, 0);
+                            }
+                            setDraggedChunkId(chunk.chunk_id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedChunkId(null);
+                            setDropTarget(null);
+                          }}
+                          onClick={(e) => e.stopPropagation()}
+                          className="cursor-grab text-muted-foreground hover:text-foreground"
+                          title="Drag to reorder"
+                        >
+                          <GripVertical className="h-4 w-4" />
+                        </span>
+                      )}
+                      {renderTypeBadge(chunk, index)}
+                      {chunkCorrections[chunk.chunk_id] && (
+                        <span
+                          className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+                          title={`Extracted text:\n${
+                            chunkCorrections[chunk.chunk_id].original
+                          }`}
+                        >
+                          corrected
+                        </span>
+                      )}
+                      {validationIssues[chunk.chunk_id] && (
+                        <span
+                          className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+                          title={describeIssues(
+                            validationIssues[chunk.chunk_id]
+                          )}
+                        >
+                          <AlertCircle className="h-3 w-3" />
+                          {validationIssues[chunk.chunk_id].length}{" "}
+                          {validationIssues[chunk.chunk_id].length === 1
+                            ? "issue"
+                            : "issues"}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      {onRevertChunk &&
+                        modifiedChunkIds.includes(chunk.chunk_id) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onRevertChunk(chunk.chunk_id);
+                            }}
+                            title="Revert to extracted value"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        )}
+                      {onChunkTextChange && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingChunkId(chunk.chunk_id);
+                          }}
+                          disabled={editingChunkId === chunk.chunk_id}
+                          title="Edit text"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          copyToClipboard(chunk.text, chunk.chunk_id);
+                        }}
+                        disabled={copyingChunks[chunk.chunk_id]}
+                      >
+                        {copyingChunks[chunk.chunk_id] ? (
+                          <Check className="h-3 w-3 text-green-500" />
+                        ) : (
+                          <Copy className="h-3 w-3" />
+                        )}
+                      </Button>
+                      {onDeleteChunk && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 hover:text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDeleteChunk(chunk.chunk_id);
+                          }}
+                          title="Delete chunk"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                )}
-              </div>
-            ))}
+                  {editingChunkId === chunk.chunk_id && onChunkTextChange ? (
+                    <ChunkTextEditor
+                      chunk={chunk}
+                      originalText={chunkCorrections[chunk.chunk_id]?.original}
+                      onSave={(text) => {
+                        onChunkTextChange(chunk.chunk_id, text);
+                        setEditingChunkId(null);
+                      }}
+                      onCancel={() => setEditingChunkId(null)}
+                      onSplit={
+                        onSplitChunk
+                          ? (text, offset) => {
+                              onSplitChunk(chunk.chunk_id, text, offset);
+                              setEditingChunkId(null);
+                            }
+                          : undefined
+                      }
+                    />
+                  ) : chunk.chunk_type === "table" && parseTable(chunk.text) ? (
+                    <div className="mt-3 min-w-[30rem]">
+                      <TableGridEditor
+                        text={chunk.text}
+                        name={
+                          getFigureNumber(
+                            chunks,
+                            chunk.chunk_id,
+                            chunk.chunk_type
+                          ) || "table"
+                        }
+                        onChange={
+                          onChunkTableChange
+                            ? (text) => onChunkTableChange(chunk.chunk_id, text)
+                            : undefined
+                        }
+                      />
+                    </div>
+                  ) : (
+                    <div
+                      className={cn(
+                        "whitespace-pre-wrap break-words mt-3",
+                        chunk.chunk_type === "table" && "min-w-[30rem]"
+                      )}
+                    >
+                      <Markdown content={chunk.text} />
+                    </div>
+                  )}
+                  {chunk.grounding && chunk.grounding.length > 0 && (
+                    <div className="mt-2 text-xs text-muted-foreground">
+                      Located on page {chunk.grounding[0].page + 1}
+                    </div>
+                  )}
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {viewMode === "blocks" && mergeSelection && (
+          <div className="sticky bottom-0 flex items-center justify-between rounded-md border bg-popover text-popover-foreground shadow-md px-3 py-2">
+            <span className="text-xs">
+              {mergeSelection.length === 0
+                ? "Select the blocks to merge"
+                : `${mergeSelection.length} ${
+                    mergeSelection.length === 1 ? "block" : "blocks"
+                  } selected`}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={() => setMergeSelection(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                onClick={handleMergeSelection}
+                disabled={mergeSelection.length < 2}
+              >
+                <Combine className="h-3 w-3 mr-1" />
+                Merge
+              </Button>
+            </div>
           </div>
         )}
       </div>
@@ -388,7 +872,7 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
   return (
     <div className="h-full flex flex-col overflow-hidden">
       <div className="flex justify-between items-center p-4 border-b border-border shrink-0">
-        <div className="flex items-center space-x-2 w-full max-w-md">
+        <div className="flex items-center space-x-2 w-full max-w-2xl">
           <Button
             variant={activeTab === "parsed" ? "default" : "outline"}
             className="flex items-center flex-1"
@@ -416,6 +900,49 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
             <MessageSquare className="h-4 w-4 mr-2" />
             Chat with Document
           </Button>
+          <Button
+            variant={activeTab === "fields" ? "default" : "outline"}
+            className="flex items-center flex-1"
+            onClick={() => {
+              setActiveTab("fields");
+              if (isChatActive && onChatWithDocument) {
+                onChatWithDocument();
+              }
+            }}
+          >
+            <ListTree className="h-4 w-4 mr-2" />
+            Fields
+          </Button>
+          {invoice && (
+            <Button
+              variant={activeTab === "invoice" ? "default" : "outline"}
+              className="flex items-center flex-1"
+              onClick={() => {
+                setActiveTab("invoice");
+                if (isChatActive && onChatWithDocument) {
+                  onChatWithDocument();
+                }
+              }}
+            >
+              <Receipt className="h-4 w-4 mr-2" />
+              Invoice
+            </Button>
+          )}
+          {labResults.length > 0 && (
+            <Button
+              variant={activeTab === "lab" ? "default" : "outline"}
+              className="flex items-center flex-1"
+              onClick={() => {
+                setActiveTab("lab");
+                if (isChatActive && onChatWithDocument) {
+                  onChatWithDocument();
+                }
+              }}
+            >
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Lab Report
+            </Button>
+          )}
         </div>
 
         <Button
@@ -434,7 +961,48 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
 
       <div className="flex-1 overflow-auto">
         {activeTab === "parsed" ? (
-          <div className="h-full p-4 overflow-auto">{renderContent()}</div>
+          <div ref={extractedContentRef} className="h-full p-4 overflow-auto">
+            {renderContent()}
+          </div>
+        ) : activeTab === "invoice" && invoice ? (
+          <div className="h-full p-4 overflow-auto">
+            <InvoicePanel
+              invoice={invoice}
+              selectedChunkId={selectedChunkId}
+              onChunkSelect={onChunkSelect}
+            />
+          </div>
+        ) : activeTab === "lab" && labResults.length > 0 ? (
+          <div className="h-full p-4 overflow-auto">
+            <LabReportPanel
+              results={labResults}
+              selectedChunkId={selectedChunkId}
+              onChunkSelect={onChunkSelect}
+            />
+          </div>
+        ) : activeTab === "fields" ? (
+          <div className="h-full p-4 overflow-auto space-y-4">
+            {onTemplateSelect && onTemplateSave && onTemplateDelete && (
+              <TemplatePanel
+                documentData={documentData}
+                templates={templates}
+                template={template}
+                result={templateResult}
+                onTemplateSelect={onTemplateSelect}
+                onTemplateSave={onTemplateSave}
+                onTemplateDelete={onTemplateDelete}
+                selectedChunkId={selectedChunkId}
+                onChunkSelect={onChunkSelect}
+                selectedRegion={selectedRegion}
+              />
+            )}
+            <FormFieldsPanel
+              chunks={chunks}
+              selectedChunkId={selectedChunkId}
+              onChunkSelect={onChunkSelect}
+              onFieldChange={onFormFieldChange}
+            />
+          </div>
         ) : (
           <div className="h-full flex flex-col overflow-hidden">
             {onSendChatMessage && documentData && (
@@ -443,6 +1011,8 @@ const DocumentContent: React.FC<DocumentContentProps> = ({
                 onSendChatMessage={onSendChatMessage}
                 initialSuggestedQuestions={suggestedQuestions}
                 isLoadingQuestions={isGeneratingQuestions}
+                attachedChunks={attachedChunks}
+                onClearAttachedChunks={onClearAttachedChunks}
               />
             )}
           </div>
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronUp, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { SearchHit } from "@/lib/search";
+
+interface DocumentSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  hits: SearchHit[];
+  onHitSelect: (hit: SearchHit) => void;
+}
+
+const DocumentSearch: React.FC<DocumentSearchProps> = ({
+  query,
+  onQueryChange,
+  hits,
+  onHitSelect,
+}) => {
+  const [activeHitIndex, setActiveHitIndex] = useState(-1);
+  const [showResults, setShowResults] = useState(true);
+
+  // Start over whenever the query changes
+  useEffect(() => {
+    setActiveHitIndex(-1);
+    setShowResults(true);
+  }, [query]);
+
+  const goToHit = (index: number) => {
+    if (hits.length === 0) return;
+    // Wrap around at either end of the document
+    const nextIndex = (index + hits.length) % hits.length;
+    setActiveHitIndex(nextIndex);
+    onHitSelect(hits[nextIndex]);
+  };
+
+  // Group hits by page, keeping their position in the overall hit order
+  const hitsByPage = hits.reduce<Record<number, number[]>>(
+    (groups, hit, index) => {
+      (groups[hit.page] = groups[hit.page] || []).push(index);
+      return groups;
+    },
+    {}
+  );
+  const pages = Object.keys(hitsByPage)
+    .map(Number)
+    .sort((a, b) => (a < 0 ? 1 : b < 0 ? -1 : a - b));
+
+  return (
+    <div className="rounded-md border border-border">
+      <div className="flex items-center gap-1 p-1">
+        <Search className="h-4 w-4 ml-2 text-muted-foreground shrink-0" />
+        <Input
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              goToHit(activeHitIndex + (e.shiftKey ? -1 : 1));
+            } else if (e.key === "Escape") {
+              onQueryChange("");
+            }
+          }}
+          placeholder="Search extracted text..."
+          className="h-8 border-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+        {query && (
+          <>
+            <span className="text-xs text-muted-foreground whitespace-nowrap px-1">
+              {hits.length === 0
+                ? "No results"
+                : `${activeHitIndex >= 0 ? activeHitIndex + 1 : 0} / ${
+                    hits.length
+                  }`}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => goToHit(activeHitIndex - 1)}
+              disabled={hits.length === 0}
+              title="Previous match"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => goToHit(activeHitIndex + 1)}
+              disabled={hits.length === 0}
+              title="Next match"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => onQueryChange("")}
+              title="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {query && hits.length > 0 && (
+        <div className="border-t border-border">
+          <button
+            type="button"
+            className="w-full text-left text-xs text-muted-foreground px-3 py-1 hover:bg-muted/50"
+            onClick={() => setShowResults((prev) => !prev)}
+          >
+            {showResults ? "Hide" : "Show"} {hits.length} matches on{" "}
+            {pages.filter((page) => page >= 0).length} pages
+          </button>
+
+          {showResults && (
+            <div className="max-h-56 overflow-auto pb-1">
+              {pages.map((page) => (
+                <div key={page}>
+                  <div className="sticky top-0 bg-background text-xs font-medium px-3 py-1">
+                    {page >= 0 ? `Page ${page + 1}` : "No location"}
+                  </div>
+                  {hitsByPage[page].map((hitIndex) => {
+                    const hit = hits[hitIndex];
+                    return (
+                      <button
+                        key={`${hit.chunkId}-${hit.start}`}
+                        type="button"
+                        onClick={() => goToHit(hitIndex)}
+                        className={cn(
+                          "block w-full text-left text-xs px-3 py-1 truncate",
+                          hitIndex === activeHitIndex
+                            ? "bg-primary/10"
+                            : "hover:bg-muted/50"
+                        )}
+                      >
+                        {hit.before}
+                        <mark className="bg-yellow-300/70 text-inherit rounded-sm">
+                          {hit.match}
+                        </mark>
+                        {hit.after}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentSearch;
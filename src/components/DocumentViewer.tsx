@@ -1,59 +1,299 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   ChevronLeft,
   ChevronRight,
   AlertCircle,
+  AlertTriangle,
   ZoomIn,
   ZoomOut,
   Maximize,
   Minimize,
+  PanelLeft,
+  FileIcon,
+  Rows3,
+  Tags,
+  MoveHorizontal,
+  Expand,
+  RotateCcw,
+  RotateCw,
+  SquareDashedMousePointer,
+  Waypoints,
+  ListOrdered,
+  MousePointerClick,
+  Check,
+  X,
+  SquarePlus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { DocumentChunk, Grounding } from "@/services/documentService";
+import {
+  DocumentChunk,
+  Error as DocumentError,
+  BoxCoordinates,
+  Grounding,
+} from "@/services/documentService";
+import PdfPageCanvas from "@/components/PdfPageCanvas";
+import PageThumbnails from "@/components/PageThumbnails";
+import ChunkTypeLegend from "@/components/ChunkTypeLegend";
+import RegionSelectionBar from "@/components/RegionSelectionBar";
+import AddChunkForm from "@/components/AddChunkForm";
+import { usePdfDocument } from "@/hooks/use-pdf-document";
+import { useElementSize } from "@/hooks/use-element-size";
+import { useVisiblePages } from "@/hooks/use-visible-pages";
+import { usePanZoom } from "@/hooks/use-pan-zoom";
+import { isPdfDocument, PageSize } from "@/lib/pdf";
+import {
+  ChunkType,
+  getChunkTypeStyle,
+  getFigureNumber,
+} from "@/lib/chunkTypes";
+import { getReadingOrderStops } from "@/lib/readingOrder";
+import { describeIssues, ValidationIssue } from "@/lib/validation";
+import {
+  clampBox,
+  getChunksInRegion,
+  isSideways,
+  normalizeRotation,
+  RegionSelection,
+  rotateBox,
+  Rotation,
+  unrotateBox,
+} from "@/lib/geometry";
+
+type FitMode = "width" | "page";
+type ToolMode = "pan" | "region" | "sequence" | "add";
+
+// A region being drawn, in normalized coordinates of the displayed page
+interface DraftRegion {
+  page: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 1.25;
+// pdf.js sizes pages in points (1/72in), the screen in CSS pixels (1/96in)
+const PDF_TO_CSS_UNITS = 96 / 72;
+// Padding around the pages inside the scroll container (p-4)
+const PAGE_PADDING = 16;
+// Regions smaller than this (as a fraction of the page) count as a click
+const MIN_REGION_SIZE = 0.01;
+// Radius of the numbered badges of the reading order overlay, in pixels
+const ORDER_BADGE_RADIUS = 10;
+
+// Rotations are kept per document for the rest of the browser session
+const getRotationStorageKey = (documentName: string) =>
+  `document-viewer:rotations:${documentName}`;
+
+const loadPageRotations = (documentName: string): Record<number, Rotation> => {
+  try {
+    const stored = sessionStorage.getItem(getRotationStorageKey(documentName));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
 
 interface DocumentViewerProps {
   documentUrl: string;
   documentName: string;
+  documentType?: string;
   pageCount: number;
   chunks?: DocumentChunk[];
+  errors?: DocumentError[];
   isProcessing?: boolean;
   processingError?: string | null;
   highlightedChunkId?: string;
   onChunkClick?: (chunkId: string) => void;
+  hiddenChunkTypes?: ChunkType[];
+  onHiddenChunkTypesChange?: (types: ChunkType[]) => void;
+  searchHitChunkIds?: string[];
+  selectedRegion?: RegionSelection | null;
+  onRegionSelect?: (region: RegionSelection | null) => void;
+  onAskAboutRegion?: (chunks: DocumentChunk[]) => void;
+  onSequenceChunks?: (chunkIds: string[]) => void;
+  onMergeChunks?: (chunkIds: string[]) => void;
+  onAddChunk?: (
+    chunkType: ChunkType,
+    text: string,
+    grounding: Grounding
+  ) => void;
+  // Fields failing validation, by the chunk they were read from
+  validationIssues?: Record<string, ValidationIssue[]>;
+  // Out-of-range lab results, by the chunk they were read from
+  abnormalResults?: Record<string, string[]>;
 }
 
 const DocumentViewer: React.FC<DocumentViewerProps> = ({
   documentUrl,
   documentName,
-  pageCount,
+  documentType,
+  pageCount: extractedPageCount,
   chunks = [],
+  errors = [],
   isProcessing = false,
   processingError = null,
   highlightedChunkId,
   onChunkClick,
+  hiddenChunkTypes = [],
+  onHiddenChunkTypesChange,
+  searchHitChunkIds = [],
+  selectedRegion = null,
+  onRegionSelect,
+  onAskAboutRegion,
+  onSequenceChunks,
+  onMergeChunks,
+  onAddChunk,
+  validationIssues = {},
+  abnormalResults = {},
 }) => {
   const [currentPage, setCurrentPage] = useState(1);
   const [hoverChunkId, setHoverChunkId] = useState<string | null>(null);
+  // Zoom is relative to the page's actual size; a fit mode keeps it in sync
+  // with the viewer size until the user zooms manually
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [fitMode, setFitMode] = useState<FitMode | null>("page");
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [viewMode, setViewMode] = useState<"paged" | "continuous">("paged");
+  const [imageSize, setImageSize] = useState<PageSize | null>(null);
+  const [showLegend, setShowLegend] = useState(false);
+  const [toolMode, setToolMode] = useState<ToolMode>("pan");
+  const [draftRegion, setDraftRegion] = useState<DraftRegion | null>(null);
+  // Chunks clicked in the sequence tool, in their corrected reading order
+  const [sequence, setSequence] = useState<string[]>([]);
+  // Region drawn for a chunk the extraction missed, waiting for its text
+  const [newChunkGrounding, setNewChunkGrounding] = useState<Grounding | null>(
+    null
+  );
+  // Number and connect the regions of chunks grounded in several places
+  const [showFragmentLinks, setShowFragmentLinks] = useState(false);
+  const [showReadingOrder, setShowReadingOrder] = useState(false);
+  // Index into the grounding list of the highlighted chunk
+  const [activeFragmentIndex, setActiveFragmentIndex] = useState(0);
+  // Fragment to show once a chunk selected from a fragment marker is highlighted
+  const pendingFragmentIndexRef = React.useRef<number | null>(null);
+  // Clockwise rotation chosen by the user, keyed by 0-indexed page
+  const [pageRotations, setPageRotations] = useState<Record<number, Rotation>>(
+    () => loadPageRotations(documentName)
+  );
   const viewerRef = React.useRef<HTMLDivElement>(null);
+  const pageAreaRef = React.useRef<HTMLDivElement>(null);
+  const pageAreaSize = useElementSize(pageAreaRef);
+  const scrollContainerRef = React.useRef<HTMLDivElement>(null);
+  const pageRefs = React.useRef<(HTMLDivElement | null)[]>([]);
+
+  const isPdf = isPdfDocument(documentType, documentName);
+  const {
+    pdf,
+    pageSizes,
+    isLoading: isLoadingPdf,
+    error: pdfError,
+  } = usePdfDocument(documentUrl, isPdf);
+
+  // Prefer the real page count of the PDF over the one inferred from groundings.
+  // An image is a single page, whatever pages its chunks claim.
+  const pageCount = isPdf ? (pdf ? pdf.numPages : extractedPageCount) : 1;
+  // An image only ever has one page to stack
+  const stackedPageCount = isPdf ? (pdf ? pageCount : 0) : 1;
+  const isContinuous = viewMode === "continuous";
+
+  const visiblePages = useVisiblePages(
+    scrollContainerRef,
+    pageRefs,
+    stackedPageCount,
+    isContinuous && !isProcessing && !processingError
+  );
+
+  // Scroll so that a point on a page (as a fraction of its size) comes into view
+  const scrollToPagePosition = (pageIndex: number, top = 0, left = 0) => {
+    const container = scrollContainerRef.current;
+    const pageElement = pageRefs.current[pageIndex];
+    if (!container || !pageElement) return;
+
+    container.scrollTo({
+      top:
+        pageElement.offsetTop +
+        top * pageElement.offsetHeight -
+        (top > 0 ? container.clientHeight / 3 : PAGE_PADDING),
+      left:
+        pageElement.offsetLeft +
+        left * pageElement.offsetWidth -
+        (left > 0 ? container.clientWidth / 4 : PAGE_PADDING),
+      behavior: "smooth",
+    });
+  };
+
+  const showGrounding = (grounding: Grounding) => {
+    // Adding 1 since API uses 0-indexing
+    const newPage = grounding.page + 1;
+    if (newPage >= 1 && newPage <= pageCount) {
+      const box = rotateBox(grounding.box, getRotation(grounding.page));
+      setCurrentPage(newPage);
+      // Wait for the page to be laid out when switching pages
+      requestAnimationFrame(() =>
+        scrollToPagePosition(grounding.page, box.t, box.l)
+      );
+    }
+  };
+
+  // Read by the selection effect, which should only react to a new selection
+  // and not to rotating the page afterwards
+  const showGroundingRef = React.useRef(showGrounding);
+  showGroundingRef.current = showGrounding;
+  // Likewise chunks, which change with every edit, undo and redo
+  const chunksRef = React.useRef(chunks);
+  chunksRef.current = chunks;
 
   // Update current page when highlightedChunkId changes
   useEffect(() => {
-    if (highlightedChunkId && chunks) {
-      const selectedChunk = chunks.find(
+    const fragmentIndex = pendingFragmentIndexRef.current ?? 0;
+    pendingFragmentIndexRef.current = null;
+    setActiveFragmentIndex(fragmentIndex);
+
+    if (highlightedChunkId && chunksRef.current) {
+      const selectedChunk = chunksRef.current.find(
         (chunk) => chunk.chunk_id === highlightedChunkId
       );
-      if (selectedChunk?.grounding && selectedChunk.grounding.length > 0) {
-        // Set the page to the first grounding's page (adding 1 since API uses 0-indexing)
-        const newPage = selectedChunk.grounding[0].page + 1;
-        if (newPage >= 1 && newPage <= pageCount) {
-          setCurrentPage(newPage);
-        }
+      const grounding = selectedChunk?.grounding?.[fragmentIndex];
+      if (grounding) {
+        showGroundingRef.current(grounding);
       }
     }
-  }, [highlightedChunkId, chunks, pageCount]);
+  }, [highlightedChunkId, pageCount]);
+
+  useEffect(() => {
+    setPageRotations(loadPageRotations(documentName));
+  }, [documentName]);
+
+  const getRotation = useCallback(
+    (pageIndex: number): Rotation => pageRotations[pageIndex] || 0,
+    [pageRotations]
+  );
+
+  const rotatePage = (pageIndex: number, degrees: number) => {
+    const next = {
+      ...pageRotations,
+      [pageIndex]: normalizeRotation(getRotation(pageIndex) + degrees),
+    };
+    setPageRotations(next);
+    try {
+      sessionStorage.setItem(
+        getRotationStorageKey(documentName),
+        JSON.stringify(next)
+      );
+    } catch (error) {
+      console.error("Error saving page rotation:", error);
+    }
+  };
+
+  // Keep the current page in range when a new document is loaded
+  useEffect(() => {
+    setCurrentPage((prev) => Math.min(prev, Math.max(pageCount, 1)));
+  }, [pageCount]);
 
   // Handle fullscreen toggling
   useEffect(() => {
@@ -70,30 +310,321 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
   const handlePageChange = (page: number) => {
     if (page >= 1 && page <= pageCount) {
       setCurrentPage(page);
+      if (isContinuous) {
+        scrollToPagePosition(page - 1);
+      }
     }
   };
 
-  const getChunksForCurrentPage = () => {
-    // API uses 0-indexed pages, UI uses 1-indexed
-    const apiPageIndex = currentPage - 1;
+  const handleViewModeChange = (mode: "paged" | "continuous") => {
+    setViewMode(mode);
+    setFitMode(mode === "continuous" ? "width" : "page");
+    if (mode === "continuous") {
+      // Wait for the stack to be laid out before jumping to the current page
+      requestAnimationFrame(() => {
+        const container = scrollContainerRef.current;
+        const pageElement = pageRefs.current[currentPage - 1];
+        if (container && pageElement) {
+          container.scrollTop = pageElement.offsetTop - PAGE_PADDING;
+        }
+      });
+    }
+  };
+
+  // Track the current page from the scroll position of the continuous stack
+  const handleContinuousScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container || !isContinuous) return;
+
+    const middle = container.scrollTop + container.clientHeight / 2;
+    const pageIndex = pageRefs.current
+      .slice(0, stackedPageCount)
+      .findIndex(
+        (element) =>
+          element &&
+          element.offsetTop <= middle &&
+          element.offsetTop + element.offsetHeight + 16 > middle
+      );
+
+    if (pageIndex >= 0 && pageIndex + 1 !== currentPage) {
+      setCurrentPage(pageIndex + 1);
+    }
+  };
 
+  // API uses 0-indexed pages
+  const getChunksForPage = (apiPageIndex: number) => {
     return chunks.filter(
       (chunk) =>
-        chunk.grounding && chunk.grounding.some((g) => g.page === apiPageIndex)
+        !hiddenChunkTypes.includes(chunk.chunk_type) &&
+        chunk.grounding &&
+        chunk.grounding.some((g) => g.page === apiPageIndex)
     );
   };
 
-  // Get the current page URL if it's a multi-page document
-  const getCurrentPageUrl = () => {
-    return documentUrl;
+  // Size of a page at 100% zoom and its current rotation, in CSS pixels
+  const getPageSize = useCallback(
+    (pageIndex: number): PageSize | null => {
+      const unrotated = isPdf
+        ? pageSizes[pageIndex] && {
+            width: pageSizes[pageIndex].width * PDF_TO_CSS_UNITS,
+            height: pageSizes[pageIndex].height * PDF_TO_CSS_UNITS,
+          }
+        : imageSize;
+
+      if (!unrotated) return null;
+      return isSideways(getRotation(pageIndex))
+        ? { width: unrotated.height, height: unrotated.width }
+        : unrotated;
+    },
+    [isPdf, pageSizes, imageSize, getRotation]
+  );
+
+  const getDisplaySize = (pageIndex: number): PageSize | null => {
+    const pageSize = getPageSize(pageIndex);
+    return pageSize
+      ? {
+          width: Math.floor(pageSize.width * zoomLevel),
+          height: Math.floor(pageSize.height * zoomLevel),
+        }
+      : null;
+  };
+
+  // The stack is fitted to its first page, so scrolling doesn't re-fit it
+  const fitPageIndex = isContinuous ? 0 : currentPage - 1;
+  const getFitZoom = useCallback(
+    (mode: FitMode) => {
+      const pageSize = getPageSize(fitPageIndex);
+      if (!pageSize || pageAreaSize.width <= 0) return null;
+
+      // Leave room for the vertical scrollbar of the stacked pages
+      const availableWidth =
+        pageAreaSize.width - PAGE_PADDING * 2 - (isContinuous ? 16 : 0);
+      const availableHeight = pageAreaSize.height - PAGE_PADDING * 2;
+      const widthZoom = availableWidth / pageSize.width;
+
+      return mode === "width"
+        ? widthZoom
+        : Math.min(widthZoom, availableHeight / pageSize.height);
+    },
+    [getPageSize, fitPageIndex, pageAreaSize, isContinuous]
+  );
+
+  // Re-fit whenever the viewer or the page changes size
+  useEffect(() => {
+    if (!fitMode) return;
+    const fitZoom = getFitZoom(fitMode);
+    if (fitZoom) {
+      setZoomLevel(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, fitZoom)));
+    }
+  }, [fitMode, getFitZoom]);
+
+  // The page under a point is the element that scales when zooming
+  const getAnchorElement = useCallback((clientX: number, clientY: number) => {
+    const pageElements = pageRefs.current.filter(Boolean);
+    return (
+      pageElements.find((element) => {
+        const rect = element.getBoundingClientRect();
+        return clientY >= rect.top && clientY <= rect.bottom;
+      }) ||
+      pageElements[0] ||
+      null
+    );
+  }, []);
+
+  const isSelectingRegion = toolMode === "region" && !!onRegionSelect;
+  const isAddingChunk = toolMode === "add" && !!onAddChunk;
+  // Both tools draw a rectangle on the page
+  const isDrawingRegion = isSelectingRegion || isAddingChunk;
+  const isSequencing = toolMode === "sequence" && !!onSequenceChunks;
+
+  const { isPanning, zoomTo } = usePanZoom({
+    containerRef: scrollContainerRef,
+    zoom: zoomLevel,
+    minZoom: MIN_ZOOM,
+    maxZoom: MAX_ZOOM,
+    onZoomChange: (zoom) => {
+      setFitMode(null);
+      setZoomLevel(zoom);
+    },
+    getAnchorElement,
+    // Panning would take the pointer away from a rectangle being drawn
+    enabled: !isProcessing && !processingError && !isDrawingRegion,
+  });
+
+  const highlightedChunk = chunks.find(
+    (chunk) => chunk.chunk_id === highlightedChunkId
+  );
+  const highlightedFragments = highlightedChunk?.grounding || [];
+
+  // Step to a region of a chunk, selecting the chunk first if needed
+  const goToFragment = (chunk: DocumentChunk, fragmentIndex: number) => {
+    const grounding = chunk.grounding?.[fragmentIndex];
+    if (!grounding) return;
+
+    if (chunk.chunk_id !== highlightedChunkId && onChunkClick) {
+      pendingFragmentIndexRef.current = fragmentIndex;
+      onChunkClick(chunk.chunk_id);
+      return;
+    }
+    setActiveFragmentIndex(fragmentIndex);
+    showGrounding(grounding);
+  };
+
+  const handleToolModeChange = (mode: ToolMode) => {
+    setToolMode((prev) => (prev === mode ? "pan" : mode));
+    setSequence([]);
+    setNewChunkGrounding(null);
+    // The tools share the bottom of the viewer for their actions
+    if (mode !== "region") {
+      onRegionSelect?.(null);
+    }
+  };
+
+  // Clicking a chunk again takes it out of the sequence
+  const toggleSequenceChunk = (chunkId: string) => {
+    setSequence((prev) =>
+      prev.includes(chunkId)
+        ? prev.filter((id) => id !== chunkId)
+        : [...prev, chunkId]
+    );
+  };
+
+  const applySequence = () => {
+    onSequenceChunks?.(sequence);
+    setSequence([]);
+  };
+  const selectedRegionChunks = selectedRegion
+    ? chunks.filter((chunk) => selectedRegion.chunkIds.includes(chunk.chunk_id))
+    : [];
+
+  // Position of a pointer event as a fraction of the page element
+  const getPagePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const getDraftBox = (draft: DraftRegion): BoxCoordinates => ({
+    l: Math.min(draft.startX, draft.endX),
+    t: Math.min(draft.startY, draft.endY),
+    r: Math.max(draft.startX, draft.endX),
+    b: Math.max(draft.startY, draft.endY),
+  });
+
+  const handleRegionPointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    pageIndex: number
+  ) => {
+    if (!isDrawingRegion || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPagePoint(e);
+    setDraftRegion({ page: pageIndex, startX: x, startY: y, endX: x, endY: y });
+  };
+
+  const handleRegionPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draftRegion) return;
+    const { x, y } = getPagePoint(e);
+    setDraftRegion({ ...draftRegion, endX: x, endY: y });
+  };
+
+  const handleRegionPointerUp = () => {
+    if (!draftRegion) return;
+    const box = getDraftBox(draftRegion);
+    setDraftRegion(null);
+    const isClick =
+      box.r - box.l < MIN_REGION_SIZE || box.b - box.t < MIN_REGION_SIZE;
+    // Groundings are normalized to the unrotated page
+    const pageBox = unrotateBox(box, getRotation(draftRegion.page));
+
+    if (isAddingChunk) {
+      setNewChunkGrounding(
+        isClick ? null : { page: draftRegion.page, box: pageBox }
+      );
+      return;
+    }
+    if (!onRegionSelect) return;
+
+    // A click without dragging clears the selection
+    if (isClick) {
+      onRegionSelect(null);
+      return;
+    }
+
+    const regionChunks = getChunksInRegion(
+      chunks.filter((chunk) => !hiddenChunkTypes.includes(chunk.chunk_type)),
+      draftRegion.page,
+      pageBox
+    );
+    onRegionSelect({
+      page: draftRegion.page,
+      box: pageBox,
+      chunkIds: regionChunks.map((chunk) => chunk.chunk_id),
+    });
+  };
+
+  // Rotated images are turned around the center of the (rotated) page box
+  const renderImage = (displaySize: PageSize | null, rotation: Rotation) => (
+    <img
+      src={documentUrl}
+      alt={`${documentName} - Page 1`}
+      className="object-contain"
+      style={
+        displaySize && rotation
+          ? {
+              position: "absolute",
+              left: "50%",
+              top: "50%",
+              maxWidth: "none",
+              width: isSideways(rotation)
+                ? displaySize.height
+                : displaySize.width,
+              height: isSideways(rotation)
+                ? displaySize.width
+                : displaySize.height,
+              transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+            }
+          : {
+              display: "block",
+              maxWidth: "none",
+              width: displaySize?.width,
+              height: displaySize?.height,
+            }
+      }
+      onLoad={(e) =>
+        setImageSize({
+          width: e.currentTarget.naturalWidth,
+          height: e.currentTarget.naturalHeight,
+        })
+      }
+    />
+  );
+
+  const renderPdfStatus = () => {
+    if (pdfError) {
+      return (
+        <div className="flex items-center text-sm text-destructive p-6">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          Unable to display this PDF: {pdfError}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center text-sm text-muted-foreground p-6">
+        <div className="h-4 w-4 mr-2 rounded-full border-2 border-primary border-r-transparent animate-spin" />
+        Rendering PDF...
+      </div>
+    );
   };
 
   const handleZoomIn = () => {
-    setZoomLevel((prev) => Math.min(prev + 0.25, 3));
+    zoomTo(zoomLevel * ZOOM_STEP);
   };
 
   const handleZoomOut = () => {
-    setZoomLevel((prev) => Math.max(prev - 0.25, 0.5));
+    zoomTo(zoomLevel / ZOOM_STEP);
   };
 
   const toggleFullScreen = () => {
@@ -104,122 +635,554 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
     }
   };
 
-  // Get figure numbers for each chunk
-  const getFigureNumber = (chunkId: string, chunkType: string): string => {
-    if (chunkType.toLowerCase() !== "figure") {
-      return "";
-    }
+  const renderRegion = (box: BoxCoordinates, key: string) => (
+    <div
+      key={key}
+      className="absolute border-2 border-dashed border-primary bg-primary/10 pointer-events-none"
+      style={{
+        left: `${box.l * 100}%`,
+        top: `${box.t * 100}%`,
+        width: `${(box.r - box.l) * 100}%`,
+        height: `${(box.b - box.t) * 100}%`,
+        zIndex: 15,
+      }}
+    />
+  );
 
-    // Find all figure chunks and determine this one's position
-    const figureChunks = chunks.filter(
-      (c) => c.chunk_type.toLowerCase() === "figure"
+  const renderContinuationMarker = (
+    label: string,
+    position: string,
+    onClick: () => void
+  ) => (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={cn(
+        "absolute bg-primary text-primary-foreground text-[10px] leading-tight px-1 rounded-sm pointer-events-auto whitespace-nowrap hover:bg-primary/80",
+        position
+      )}
+    >
+      {label}
+    </button>
+  );
+
+  // Dashed lines joining consecutive regions of a chunk on the same page
+  const renderFragmentLinks = (
+    pageChunks: DocumentChunk[],
+    apiPageIndex: number
+  ) => {
+    const rotation = getRotation(apiPageIndex);
+    const getCenter = (grounding: Grounding) => {
+      const box = clampBox(rotateBox(grounding.box, rotation));
+      return { x: ((box.l + box.r) / 2) * 100, y: ((box.t + box.b) / 2) * 100 };
+    };
+
+    const links = pageChunks.flatMap((chunk) => {
+      const groundings = chunk.grounding || [];
+      const isHighlighted = highlightedChunkId === chunk.chunk_id;
+      if (groundings.length < 2 || !(showFragmentLinks || isHighlighted)) {
+        return [];
+      }
+
+      return groundings.slice(1).flatMap((grounding, index) => {
+        const previous = groundings[index];
+        if (previous.page !== apiPageIndex || grounding.page !== apiPageIndex) {
+          return [];
+        }
+        const from = getCenter(previous);
+        const to = getCenter(grounding);
+        return [
+          <line
+            key={`${chunk.chunk_id}-${index}`}
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+            className={
+              isHighlighted ? "stroke-primary" : "stroke-muted-foreground/70"
+            }
+          />,
+        ];
+      });
+    });
+
+    if (links.length === 0) return null;
+    return (
+      <svg
+        className="absolute inset-0 h-full w-full"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        style={{ zIndex: 4 }}
+      >
+        {links}
+      </svg>
     );
-    const figureIndex = figureChunks.findIndex((c) => c.chunk_id === chunkId);
+  };
 
-    if (figureIndex >= 0) {
-      return `Figure ${figureIndex + 1}`;
-    }
+  // Numbered arrows from each chunk to the next one in document order, drawn
+  // in pixels so that the arrowheads are not stretched with the page
+  const renderReadingOrder = (apiPageIndex: number) => {
+    const displaySize = getDisplaySize(apiPageIndex);
+    if (!displaySize) return null;
+
+    const rotation = getRotation(apiPageIndex);
+    const stops = getReadingOrderStops(chunks, apiPageIndex)
+      .filter(
+        (stop) => !hiddenChunkTypes.includes(chunks[stop.order - 1].chunk_type)
+      )
+      .map((stop) => {
+        const box = clampBox(rotateBox(stop.box, rotation));
+        return {
+          ...stop,
+          x: ((box.l + box.r) / 2) * displaySize.width,
+          y: ((box.t + box.b) / 2) * displaySize.height,
+        };
+      });
 
-    return "";
+    return (
+      <svg
+        className="absolute inset-0 pointer-events-none"
+        width={displaySize.width}
+        height={displaySize.height}
+        style={{ zIndex: 12 }}
+      >
+        <defs>
+          <marker
+            id={`reading-order-arrow-${apiPageIndex}`}
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-primary" />
+          </marker>
+        </defs>
+        {stops.slice(1).map((stop, index) => {
+          const from = stops[index];
+          const dx = stop.x - from.x;
+          const dy = stop.y - from.y;
+          const length = Math.hypot(dx, dy);
+          // Start and end at the edge of the badges
+          if (length <= ORDER_BADGE_RADIUS * 2) return null;
+          const offsetX = (dx / length) * ORDER_BADGE_RADIUS;
+          const offsetY = (dy / length) * ORDER_BADGE_RADIUS;
+
+          return (
+            <line
+              key={stop.chunkId}
+              x1={from.x + offsetX}
+              y1={from.y + offsetY}
+              x2={stop.x - offsetX}
+              y2={stop.y - offsetY}
+              strokeWidth={2}
+              className="stroke-primary"
+              markerEnd={`url(#reading-order-arrow-${apiPageIndex})`}
+            />
+          );
+        })}
+        {stops.map((stop) => (
+          <g key={stop.chunkId}>
+            <circle
+              cx={stop.x}
+              cy={stop.y}
+              r={ORDER_BADGE_RADIUS}
+              className="fill-primary"
+            />
+            <text
+              x={stop.x}
+              y={stop.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="fill-primary-foreground text-[10px] font-medium"
+            >
+              {stop.order}
+            </text>
+          </g>
+        ))}
+      </svg>
+    );
   };
 
-  const renderPageOverlay = () => {
-    const currentChunks = getChunksForCurrentPage();
-    // API uses 0-indexed pages, UI uses 1-indexed
-    const apiPageIndex = currentPage - 1;
+  const renderPageOverlay = (apiPageIndex: number) => {
+    const currentChunks = getChunksForPage(apiPageIndex);
+    const rotation = getRotation(apiPageIndex);
 
     return (
       <div className="absolute inset-0 pointer-events-none">
+        {selectedRegion?.page === apiPageIndex &&
+          renderRegion(
+            clampBox(rotateBox(selectedRegion.box, rotation)),
+            "selected-region"
+          )}
+        {draftRegion?.page === apiPageIndex &&
+          renderRegion(getDraftBox(draftRegion), "draft-region")}
+        {newChunkGrounding?.page === apiPageIndex &&
+          renderRegion(
+            clampBox(rotateBox(newChunkGrounding.box, rotation)),
+            "new-chunk-region"
+          )}
+        {renderFragmentLinks(currentChunks, apiPageIndex)}
+        {showReadingOrder && renderReadingOrder(apiPageIndex)}
         {currentChunks.map(
           (chunk, chunkIndex) =>
             chunk.grounding &&
-            chunk.grounding
-              .filter((g) => g.page === apiPageIndex)
-              .map((grounding, gIndex) => {
-                const figureNumber = getFigureNumber(
-                  chunk.chunk_id,
-                  chunk.chunk_type
-                );
-
-                // Clamp box values to valid range (0-1)
-                const l = Math.max(0, Math.min(1, grounding.box.l));
-                const t = Math.max(0, Math.min(1, grounding.box.t));
-                const r = Math.max(0, Math.min(1, grounding.box.r));
-                const b = Math.max(0, Math.min(1, grounding.box.b));
-
-                return (
-                  <div
-                    key={`${chunk.chunk_id}-${gIndex}`}
-                    onClick={(e) => {
-                      e.stopPropagation();
+            chunk.grounding.map((grounding, fragmentIndex) => {
+              if (grounding.page !== apiPageIndex) return null;
+
+              const figureNumber = getFigureNumber(
+                chunks,
+                chunk.chunk_id,
+                chunk.chunk_type
+              );
+              const typeStyle = getChunkTypeStyle(chunk.chunk_type);
+              const isHighlighted = highlightedChunkId === chunk.chunk_id;
+              const chunkIssues = validationIssues[chunk.chunk_id];
+              const chunkAbnormalResults = chunkIssues
+                ? undefined
+                : abnormalResults[chunk.chunk_id];
+              const fragmentCount = chunk.grounding?.length || 0;
+              const showFragments =
+                fragmentCount > 1 && (showFragmentLinks || isHighlighted);
+              const fragmentLabel = showFragments
+                ? ` (${fragmentIndex + 1}/${fragmentCount})`
+                : "";
+              const previous = chunk.grounding?.[fragmentIndex - 1];
+              const next = chunk.grounding?.[fragmentIndex + 1];
+
+              // Boxes are normalized to the unrotated page
+              const { l, t, r, b } = clampBox(
+                rotateBox(grounding.box, rotation)
+              );
+
+              return (
+                <div
+                  key={`${chunk.chunk_id}-${fragmentIndex}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (isSequencing) {
+                      toggleSequenceChunk(chunk.chunk_id);
+                    } else if (isHighlighted) {
+                      setActiveFragmentIndex(fragmentIndex);
+                    } else {
+                      pendingFragmentIndexRef.current = fragmentIndex;
                       onChunkClick?.(chunk.chunk_id);
-                    }}
-                    onMouseEnter={() => setHoverChunkId(chunk.chunk_id)}
-                    onMouseLeave={() => setHoverChunkId(null)}
+                    }
+                  }}
+                  onMouseEnter={() => setHoverChunkId(chunk.chunk_id)}
+                  onMouseLeave={() => setHoverChunkId(null)}
+                  className={cn(
+                    "absolute border-2 rounded-sm transition-all",
+                    isDrawingRegion
+                      ? "pointer-events-none"
+                      : "pointer-events-auto cursor-pointer",
+                    highlightedChunkId === chunk.chunk_id
+                      ? "border-primary bg-primary/20 shadow-lg"
+                      : hoverChunkId === chunk.chunk_id
+                      ? typeStyle.hover
+                      : cn(
+                          typeStyle.border,
+                          "hover:border-primary hover:bg-primary/5"
+                        ),
+                    searchHitChunkIds.includes(chunk.chunk_id) &&
+                      "ring-2 ring-yellow-400 ring-offset-1",
+                    selectedRegion?.chunkIds.includes(chunk.chunk_id) &&
+                      "bg-primary/10",
+                    isHighlighted &&
+                      fragmentCount > 1 &&
+                      fragmentIndex === activeFragmentIndex &&
+                      "ring-2 ring-primary ring-offset-1",
+                    isSequencing &&
+                      sequence.includes(chunk.chunk_id) &&
+                      "border-primary bg-primary/10",
+                    chunkIssues &&
+                      !isHighlighted &&
+                      "border-destructive bg-destructive/10",
+                    chunkAbnormalResults &&
+                      !isHighlighted &&
+                      "border-amber-500 bg-amber-500/10"
+                  )}
+                  style={{
+                    left: `${l * 100}%`,
+                    top: `${t * 100}%`,
+                    width: `${(r - l) * 100}%`,
+                    height: `${(b - t) * 100}%`,
+                    zIndex: highlightedChunkId === chunk.chunk_id ? 10 : 5,
+                  }}
+                >
+                  <div
                     className={cn(
-                      "absolute border-2 rounded-sm pointer-events-auto cursor-pointer transition-all",
-                      highlightedChunkId === chunk.chunk_id
-                        ? "border-primary bg-primary/20 shadow-lg"
-                        : hoverChunkId === chunk.chunk_id
-                        ? "border-green-500 bg-green-500/20"
-                        : "border-green-400/60 hover:border-primary hover:bg-primary/5"
+                      "absolute top-0 left-0 text-white text-xs px-1 rounded-sm pointer-events-none",
+                      typeStyle.swatch
                     )}
-                    style={{
-                      left: `${l * 100}%`,
-                      top: `${t * 100}%`,
-                      width: `${(r - l) * 100}%`,
-                      height: `${(b - t) * 100}%`,
-                      zIndex: highlightedChunkId === chunk.chunk_id ? 10 : 5,
-                    }}
                   >
-                    <div className="absolute top-0 left-0 bg-green-500 text-white text-xs px-1 rounded-sm pointer-events-none">
-                      {figureNumber || `${chunkIndex + 1}-${chunk.chunk_type}`}
+                    {figureNumber || `${chunkIndex + 1}-${chunk.chunk_type}`}
+                    {fragmentLabel}
+                  </div>
+
+                  {chunkIssues && !isSequencing && (
+                    <div
+                      className="absolute -top-2.5 -right-2.5 h-5 min-w-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center gap-0.5"
+                      title={describeIssues(chunkIssues)}
+                    >
+                      <AlertCircle className="h-3 w-3" />
+                      {chunkIssues.length}
+                    </div>
+                  )}
+
+                  {chunkAbnormalResults && !isSequencing && (
+                    <div
+                      className="absolute -top-2.5 -right-2.5 h-5 min-w-5 px-1 rounded-full bg-amber-500 text-white text-xs font-medium flex items-center justify-center gap-0.5"
+                      title={chunkAbnormalResults.join("\n")}
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {chunkAbnormalResults.length}
+                    </div>
+                  )}
+
+                  {isSequencing && sequence.includes(chunk.chunk_id) && (
+                    <div className="absolute -top-2.5 -right-2.5 h-5 w-5 rounded-full bg-primary text-primary-foreground text-xs font-medium flex items-center justify-center pointer-events-none">
+                      {sequence.indexOf(chunk.chunk_id) + 1}
                     </div>
+                  )}
 
-                    {(highlightedChunkId === chunk.chunk_id ||
-                      hoverChunkId === chunk.chunk_id) && (
-                      <div className="absolute bottom-full left-0 mb-1 p-2 bg-black/80 text-white text-xs rounded pointer-events-none whitespace-nowrap max-w-[250px] overflow-hidden text-ellipsis">
-                        {figureNumber
-                          ? figureNumber + ": "
-                          : `${chunkIndex + 1}-${chunk.chunk_type}: `}
-                        {chunk.text.length > 30
-                          ? `${chunk.text.substring(0, 30)}...`
-                          : chunk.text}
-                      </div>
+                  {showFragments &&
+                    previous &&
+                    previous.page !== apiPageIndex &&
+                    renderContinuationMarker(
+                      `Continued from page ${previous.page + 1}`,
+                      "top-0 right-0",
+                      () => goToFragment(chunk, fragmentIndex - 1)
                     )}
-                  </div>
-                );
-              })
+                  {showFragments &&
+                    next &&
+                    next.page !== apiPageIndex &&
+                    renderContinuationMarker(
+                      `Continued on page ${next.page + 1}`,
+                      "bottom-0 right-0",
+                      () => goToFragment(chunk, fragmentIndex + 1)
+                    )}
+
+                  {(highlightedChunkId === chunk.chunk_id ||
+                    hoverChunkId === chunk.chunk_id) && (
+                    <div className="absolute bottom-full left-0 mb-1 p-2 bg-black/80 text-white text-xs rounded pointer-events-none whitespace-nowrap max-w-[250px] overflow-hidden text-ellipsis">
+                      {figureNumber
+                        ? figureNumber + fragmentLabel + ": "
+                        : `${chunkIndex + 1}-${
+                            chunk.chunk_type
+                          }${fragmentLabel}: `}
+                      {chunk.text.length > 30
+                        ? `${chunk.text.substring(0, 30)}...`
+                        : chunk.text}
+                    </div>
+                  )}
+                </div>
+              );
+            })
         )}
       </div>
     );
   };
 
+  // Pages are laid out at their zoomed pixel size so that the percentage
+  // based overlay stays aligned with the raster at every zoom level
+  const renderPage = (pageIndex: number, isVisible: boolean) => {
+    const displaySize = getDisplaySize(pageIndex);
+
+    return (
+      <div
+        key={pageIndex}
+        ref={(element) => (pageRefs.current[pageIndex] = element)}
+        data-page-index={pageIndex}
+        onPointerDown={(e) => handleRegionPointerDown(e, pageIndex)}
+        onPointerMove={handleRegionPointerMove}
+        onPointerUp={handleRegionPointerUp}
+        onPointerCancel={() => setDraftRegion(null)}
+        className={cn(
+          "relative shrink-0 bg-white shadow-sm",
+          isContinuous ? "mx-auto" : "m-auto"
+        )}
+        style={displaySize || undefined}
+      >
+        {isPdf
+          ? isVisible &&
+            displaySize && (
+              <PdfPageCanvas
+                pdf={pdf}
+                pageNumber={pageIndex + 1}
+                width={displaySize.width}
+                rotation={getRotation(pageIndex)}
+              />
+            )
+          : renderImage(displaySize, getRotation(pageIndex))}
+        {isVisible && displaySize && renderPageOverlay(pageIndex)}
+      </div>
+    );
+  };
+
+  const renderPages = () => {
+    if (isPdf && !pdf) {
+      return renderPdfStatus();
+    }
+
+    if (isContinuous) {
+      return Array.from({ length: stackedPageCount }, (_, pageIndex) =>
+        renderPage(pageIndex, visiblePages.has(pageIndex))
+      );
+    }
+
+    // Images only have a single page to show
+    return renderPage(isPdf ? currentPage - 1 : 0, true);
+  };
+
   return (
     <div ref={viewerRef} className="flex flex-col h-full">
       <div className="flex items-center justify-between px-4 py-2 border-b border-border">
-        <div className="flex items-center space-x-1 bg-background/80 rounded-md border px-2">
+        <div className="flex items-center space-x-2">
+          <Button
+            size="icon"
+            variant={showThumbnails ? "secondary" : "ghost"}
+            onClick={() => setShowThumbnails((prev) => !prev)}
+            disabled={isProcessing}
+            title={showThumbnails ? "Hide Pages" : "Show Pages"}
+          >
+            <PanelLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center space-x-1 bg-background/80 rounded-md border px-2">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => handlePageChange(currentPage - 1)}
+              disabled={currentPage === 1 || isProcessing}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm">
+              {currentPage} / {pageCount || 1}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => handlePageChange(currentPage + 1)}
+              disabled={
+                currentPage === pageCount || isProcessing || pageCount <= 1
+              }
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-1">
           <Button
             size="icon"
             variant="ghost"
-            onClick={() => handlePageChange(currentPage - 1)}
-            disabled={currentPage === 1 || isProcessing}
+            onClick={() => rotatePage(currentPage - 1, -90)}
+            disabled={isProcessing}
+            title="Rotate Left"
           >
-            <ChevronLeft className="h-4 w-4" />
+            <RotateCcw className="h-4 w-4" />
           </Button>
-          <span className="text-sm">
-            {currentPage} / {pageCount || 1}
-          </span>
           <Button
             size="icon"
             variant="ghost"
-            onClick={() => handlePageChange(currentPage + 1)}
-            disabled={
-              currentPage === pageCount || isProcessing || pageCount <= 1
-            }
+            onClick={() => rotatePage(currentPage - 1, 90)}
+            disabled={isProcessing}
+            title="Rotate Right"
+          >
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant={viewMode === "paged" ? "secondary" : "ghost"}
+            onClick={() => handleViewModeChange("paged")}
+            disabled={isProcessing}
+            title="Single Page"
           >
-            <ChevronRight className="h-4 w-4" />
+            <FileIcon className="h-4 w-4" />
           </Button>
+          <Button
+            size="icon"
+            variant={viewMode === "continuous" ? "secondary" : "ghost"}
+            onClick={() => handleViewModeChange("continuous")}
+            disabled={isProcessing}
+            title="Continuous Scroll"
+          >
+            <Rows3 className="h-4 w-4" />
+          </Button>
+          {onHiddenChunkTypesChange && (
+            <Button
+              size="icon"
+              variant={
+                showLegend || hiddenChunkTypes.length > 0
+                  ? "secondary"
+                  : "ghost"
+              }
+              onClick={() => setShowLegend((prev) => !prev)}
+              disabled={isProcessing}
+              title="Chunk Types"
+            >
+              <Tags className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            size="icon"
+            variant={showFragmentLinks ? "secondary" : "ghost"}
+            onClick={() => setShowFragmentLinks((prev) => !prev)}
+            disabled={isProcessing}
+            title="Link Chunk Regions"
+          >
+            <Waypoints className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant={showReadingOrder ? "secondary" : "ghost"}
+            onClick={() => setShowReadingOrder((prev) => !prev)}
+            disabled={isProcessing}
+            title="Reading Order"
+          >
+            <ListOrdered className="h-4 w-4" />
+          </Button>
+          {onSequenceChunks && (
+            <Button
+              size="icon"
+              variant={toolMode === "sequence" ? "secondary" : "ghost"}
+              onClick={() => handleToolModeChange("sequence")}
+              disabled={isProcessing}
+              title="Set Reading Order"
+            >
+              <MousePointerClick className="h-4 w-4" />
+            </Button>
+          )}
+          {onAddChunk && (
+            <Button
+              size="icon"
+              variant={toolMode === "add" ? "secondary" : "ghost"}
+              onClick={() => handleToolModeChange("add")}
+              disabled={isProcessing}
+              title="Add Missing Chunk"
+            >
+              <SquarePlus className="h-4 w-4" />
+            </Button>
+          )}
+          {onRegionSelect && (
+            <Button
+              size="icon"
+              variant={toolMode === "region" ? "secondary" : "ghost"}
+              onClick={() => handleToolModeChange("region")}
+              disabled={isProcessing}
+              title="Select Region"
+            >
+              <SquareDashedMousePointer className="h-4 w-4" />
+            </Button>
+          )}
         </div>
 
         <div className="flex items-center space-x-1">
@@ -227,23 +1190,49 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
             size="icon"
             variant="ghost"
             onClick={handleZoomOut}
-            disabled={isProcessing || zoomLevel <= 0.5}
+            disabled={isProcessing || zoomLevel <= MIN_ZOOM}
             title="Zoom Out"
           >
             <ZoomOut className="h-4 w-4" />
           </Button>
-          <span className="text-xs w-16 text-center">
+          <Button
+            variant={
+              fitMode === null && zoomLevel === 1 ? "secondary" : "ghost"
+            }
+            className="h-8 w-16 px-0 text-xs"
+            onClick={() => zoomTo(1)}
+            disabled={isProcessing}
+            title="Actual Size"
+          >
             {Math.round(zoomLevel * 100)}%
-          </span>
+          </Button>
           <Button
             size="icon"
             variant="ghost"
             onClick={handleZoomIn}
-            disabled={isProcessing || zoomLevel >= 3}
+            disabled={isProcessing || zoomLevel >= MAX_ZOOM}
             title="Zoom In"
           >
             <ZoomIn className="h-4 w-4" />
           </Button>
+          <Button
+            size="icon"
+            variant={fitMode === "width" ? "secondary" : "ghost"}
+            onClick={() => setFitMode("width")}
+            disabled={isProcessing}
+            title="Fit Width"
+          >
+            <MoveHorizontal className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant={fitMode === "page" ? "secondary" : "ghost"}
+            onClick={() => setFitMode("page")}
+            disabled={isProcessing}
+            title="Fit Page"
+          >
+            <Expand className="h-4 w-4" />
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -260,55 +1249,190 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
         </div>
       </div>
 
-      <div className="relative flex-grow overflow-auto bg-muted/30 flex items-center justify-center p-0">
-        {isProcessing ? (
-          <div className="flex flex-col items-center justify-center space-y-4">
-            <div className="relative">
-              <div className="h-16 w-16 rounded-full border-4 border-primary border-r-transparent animate-spin" />
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="h-8 w-8 rounded-full border-4 border-primary/60 border-l-transparent animate-spin" />
-              </div>
-            </div>
-            <div className="text-center space-y-1">
-              <h3 className="font-medium text-xl">Extracting</h3>
-              <p className="text-muted-foreground">
-                We're processing your document with high accuracy. <br />
-                Once ready, chat and extract insights seamlessly!
-              </p>
+      <div className="relative flex flex-grow overflow-hidden">
+        {showLegend && onHiddenChunkTypesChange && !isProcessing && (
+          <ChunkTypeLegend
+            chunks={chunks}
+            hiddenTypes={hiddenChunkTypes}
+            onHiddenTypesChange={onHiddenChunkTypesChange}
+            onClose={() => setShowLegend(false)}
+            className="absolute top-2 right-4 z-20"
+          />
+        )}
+        {highlightedChunk &&
+          highlightedFragments.length > 1 &&
+          !isProcessing && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 rounded-md border bg-popover text-popover-foreground shadow-md px-1 py-1">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() =>
+                  goToFragment(highlightedChunk, activeFragmentIndex - 1)
+                }
+                disabled={activeFragmentIndex <= 0}
+                title="Previous Region"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-xs px-1 whitespace-nowrap">
+                Region {activeFragmentIndex + 1} of{" "}
+                {highlightedFragments.length}
+                {highlightedFragments[activeFragmentIndex] &&
+                  ` · page ${
+                    highlightedFragments[activeFragmentIndex].page + 1
+                  }`}
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() =>
+                  goToFragment(highlightedChunk, activeFragmentIndex + 1)
+                }
+                disabled={
+                  activeFragmentIndex >= highlightedFragments.length - 1
+                }
+                title="Next Region"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
             </div>
+          )}
+        {isAddingChunk && !isProcessing && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20">
+            {newChunkGrounding ? (
+              <AddChunkForm
+                key={`${newChunkGrounding.page}-${newChunkGrounding.box.l}-${newChunkGrounding.box.t}`}
+                onSubmit={(chunkType, text) => {
+                  onAddChunk?.(chunkType, text, newChunkGrounding);
+                  setNewChunkGrounding(null);
+                }}
+                onCancel={() => setNewChunkGrounding(null)}
+              />
+            ) : (
+              <div className="rounded-md border bg-popover text-popover-foreground shadow-md px-3 py-2 text-xs whitespace-nowrap">
+                Draw a box around the region the extraction missed
+              </div>
+            )}
           </div>
-        ) : processingError ? (
-          <div className="flex flex-col items-center justify-center space-y-4 p-6">
-            <div className="rounded-full bg-destructive/10 p-4">
-              <AlertCircle className="h-10 w-10 text-destructive" />
+        )}
+        {isSequencing && !isProcessing && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 rounded-md border bg-popover text-popover-foreground shadow-md px-2 py-1">
+            <span className="text-xs px-1 whitespace-nowrap">
+              {sequence.length === 0
+                ? "Click chunks in their correct reading order"
+                : `${sequence.length} ${
+                    sequence.length === 1 ? "chunk" : "chunks"
+                  } in sequence`}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={applySequence}
+              disabled={sequence.length < 2}
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Apply
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setSequence([])}
+              disabled={sequence.length === 0}
+              title="Clear sequence"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        {selectedRegion && onRegionSelect && !isProcessing && (
+          <RegionSelectionBar
+            chunks={selectedRegionChunks}
+            onAskAboutRegion={onAskAboutRegion}
+            onMerge={
+              onMergeChunks
+                ? (regionChunks) =>
+                    onMergeChunks(regionChunks.map((chunk) => chunk.chunk_id))
+                : undefined
+            }
+            onClear={() => onRegionSelect(null)}
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20"
+          />
+        )}
+        {showThumbnails && !isProcessing && !processingError && (
+          <PageThumbnails
+            pageCount={pageCount}
+            currentPage={currentPage}
+            onPageSelect={handlePageChange}
+            chunks={chunks}
+            errors={errors}
+            pdf={isPdf ? pdf : null}
+            imageUrl={isPdf ? undefined : documentUrl}
+            pageRotations={pageRotations}
+          />
+        )}
+        <div
+          ref={pageAreaRef}
+          className="relative flex-grow overflow-auto bg-muted/30 flex items-center justify-center p-0"
+        >
+          {isProcessing ? (
+            <div className="flex flex-col items-center justify-center space-y-4">
+              <div className="relative">
+                <div className="h-16 w-16 rounded-full border-4 border-primary border-r-transparent animate-spin" />
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="h-8 w-8 rounded-full border-4 border-primary/60 border-l-transparent animate-spin" />
+                </div>
+              </div>
+              <div className="text-center space-y-1">
+                <h3 className="font-medium text-xl">Extracting</h3>
+                <p className="text-muted-foreground">
+                  We're processing your document with high accuracy. <br />
+                  Once ready, chat and extract insights seamlessly!
+                </p>
+              </div>
             </div>
-            <div className="text-center space-y-1">
-              <h3 className="font-medium text-xl">Processing Error</h3>
-              <p className="text-muted-foreground">
-                {processingError}
-                <br />
-                Please try again or upload a different document.
-              </p>
+          ) : processingError ? (
+            <div className="flex flex-col items-center justify-center space-y-4 p-6">
+              <div className="rounded-full bg-destructive/10 p-4">
+                <AlertCircle className="h-10 w-10 text-destructive" />
+              </div>
+              <div className="text-center space-y-1">
+                <h3 className="font-medium text-xl">Processing Error</h3>
+                <p className="text-muted-foreground">
+                  {processingError}
+                  <br />
+                  Please try again or upload a different document.
+                </p>
+              </div>
             </div>
-          </div>
-        ) : (
-          <div className="flex items-center justify-center h-full w-full overflow-auto p-4">
+          ) : (
             <div
-              className="relative inline-block max-w-full max-h-full transition-transform duration-200"
-              style={{ transform: `scale(${zoomLevel})` }}
-            >
-              {documentUrl && (
-                <img
-                  src={documentUrl}
-                  alt={`${documentName} - Page ${currentPage}`}
-                  className="object-contain"
-                  style={{ maxWidth: "100%", maxHeight: "100%" }}
-                />
+              ref={scrollContainerRef}
+              onScroll={handleContinuousScroll}
+              className={cn(
+                "relative h-full w-full overflow-auto touch-none select-none",
+                isDrawingRegion
+                  ? "cursor-crosshair"
+                  : isPanning
+                  ? "cursor-grabbing"
+                  : "cursor-grab"
               )}
-              {renderPageOverlay()}
+            >
+              {/* Auto margins center pages without clipping them when zoomed in */}
+              <div
+                className={cn(
+                  "flex min-h-full min-w-full w-max p-4",
+                  isContinuous && "flex-col gap-4"
+                )}
+              >
+                {renderPages()}
+              </div>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import React from "react";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { HistoryEntry } from "@/hooks/use-document-history";
+
+interface EditHistoryProps {
+  entries: HistoryEntry[];
+  position: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (position: number) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const EditHistory: React.FC<EditHistoryProps> = ({
+  entries,
+  position,
+  onUndo,
+  onRedo,
+  onGoTo,
+}) => {
+  const isMac =
+    typeof navigator !== "undefined" && /Mac/.test(navigator.platform);
+  const modifier = isMac ? "⌘" : "Ctrl+";
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8"
+        onClick={onUndo}
+        disabled={position === 0}
+        title={`Undo (${modifier}Z)`}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8"
+        onClick={onRedo}
+        disabled={position >= entries.length}
+        title={`Redo (${modifier}Shift+Z)`}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={entries.length === 0}
+            title="Edit history"
+          >
+            <History className="h-4 w-4 mr-1" />
+            {position} {position === 1 ? "edit" : "edits"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-0">
+          <div className="px-3 py-2 border-b border-border text-sm font-medium">
+            Edit history
+          </div>
+          <div className="max-h-80 overflow-auto py-1">
+            {/* Newest first, with undone edits greyed out above the current state */}
+            {entries
+              .map((entry, index) => ({ entry, index }))
+              .reverse()
+              .map(({ entry, index }) => (
+                <button
+                  key={`${entry.timestamp}-${index}`}
+                  type="button"
+                  onClick={() => onGoTo(index + 1)}
+                  className={cn(
+                    "flex w-full items-center justify-between px-3 py-1.5 text-left text-xs hover:bg-muted/50",
+                    index >= position && "text-muted-foreground line-through",
+                    index === position - 1 && "bg-primary/10 font-medium"
+                  )}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="ml-2 shrink-0 text-muted-foreground">
+                    {formatTime(entry.timestamp)}
+                  </span>
+                </button>
+              ))}
+            <button
+              type="button"
+              onClick={() => onGoTo(0)}
+              className={cn(
+                "flex w-full items-center px-3 py-1.5 text-left text-xs hover:bg-muted/50",
+                position === 0 && "bg-primary/10 font-medium"
+              )}
+            >
+              Start of history
+            </button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default EditHistory;
@@ -0,0 +1,174 @@
+import React from "react";
+import { ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FieldRules } from "@/lib/templates";
+import { FORMAT_PRESETS } from "@/lib/validation";
+
+interface FieldRulesEditorProps {
+  rules?: FieldRules;
+  // Names of the template's other fields, for required-if conditions
+  otherFieldNames: string[];
+  onChange: (rules: FieldRules | undefined) => void;
+}
+
+const NONE = "none";
+const CUSTOM = "custom";
+
+const toNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+const FieldRulesEditor: React.FC<FieldRulesEditorProps> = ({
+  rules = {},
+  otherFieldNames,
+  onChange,
+}) => {
+  const ruleCount = [
+    rules.format,
+    rules.min !== undefined || rules.max !== undefined,
+    rules.requiredIf,
+  ].filter(Boolean).length;
+
+  const update = (changes: Partial<FieldRules>) => {
+    const next = { ...rules, ...changes };
+    const isEmpty = Object.values(next).every((value) => value === undefined);
+    onChange(isEmpty ? undefined : next);
+  };
+
+  const formatChoice = !rules.format
+    ? NONE
+    : FORMAT_PRESETS[rules.format]
+    ? rules.format
+    : CUSTOM;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant={ruleCount > 0 ? "secondary" : "ghost"}
+          className="h-7 text-xs"
+        >
+          <ListChecks className="h-3 w-3 mr-1" />
+          {ruleCount > 0 ? ruleCount : "Rules"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3 text-xs">
+        <div className="space-y-1">
+          <span className="font-medium">Format</span>
+          <Select
+            value={formatChoice}
+            onValueChange={(value) =>
+              update({
+                format:
+                  value === NONE ? undefined : value === CUSTOM ? ".*" : value,
+              })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE} className="text-xs">
+                Any
+              </SelectItem>
+              {Object.entries(FORMAT_PRESETS).map(([name, preset]) => (
+                <SelectItem key={name} value={name} className="text-xs">
+                  {preset.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={CUSTOM} className="text-xs">
+                Regular expression
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          {formatChoice === CUSTOM && (
+            <Input
+              value={rules.format}
+              onChange={(e) => update({ format: e.target.value || undefined })}
+              placeholder="^[A-Z]{2}\d{6}$"
+              className="h-8 font-mono text-xs"
+            />
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <span className="font-medium">Range, for numbers</span>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={rules.min ?? ""}
+              onChange={(e) => update({ min: toNumber(e.target.value) })}
+              placeholder="Min"
+              className="h-8 text-xs"
+            />
+            <Input
+              type="number"
+              value={rules.max ?? ""}
+              onChange={(e) => update({ max: toNumber(e.target.value) })}
+              placeholder="Max"
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <span className="font-medium">Required if</span>
+          <Select
+            value={rules.requiredIf?.field || NONE}
+            onValueChange={(value) =>
+              update({
+                requiredIf:
+                  value === NONE
+                    ? undefined
+                    : { field: value, equals: rules.requiredIf?.equals },
+              })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE} className="text-xs">
+                Never
+              </SelectItem>
+              {otherFieldNames.map((name) => (
+                <SelectItem key={name} value={name} className="text-xs">
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {rules.requiredIf && (
+            <Input
+              value={rules.requiredIf.equals ?? ""}
+              onChange={(e) =>
+                update({
+                  requiredIf: {
+                    field: rules.requiredIf?.field || "",
+                    equals: e.target.value || undefined,
+                  },
+                })
+              }
+              placeholder="is filled in, or equals…"
+              className="h-8 text-xs"
+            />
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FieldRulesEditor;
@@ -0,0 +1,250 @@
+import React, { useMemo } from "react";
+import { AlertTriangle, Copy, FileDown, ListTree } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import {
+  ChoiceGroup,
+  describeChoiceIssue,
+  FormField,
+  formFieldsToJson,
+  getChoiceGroups,
+  getFormFields,
+} from "@/lib/formFields";
+import {
+  formatNormalizedValue,
+  normalizeValue,
+  ValueKind,
+} from "@/lib/normalize";
+import { DocumentChunk } from "@/services/documentService";
+
+interface FormFieldsPanelProps {
+  chunks: DocumentChunk[];
+  selectedChunkId?: string;
+  onChunkSelect: (chunkId: string) => void;
+  onFieldChange?: (field: FormField, value: string | boolean) => void;
+}
+
+const VALUE_KIND_LABELS: Record<ValueKind, string> = {
+  blank: "Blank",
+  currency: "Currency",
+  percentage: "Percentage",
+  date: "Date",
+  phone: "Phone",
+  number: "Number",
+  text: "Text",
+};
+
+interface FieldGroup {
+  key: string;
+  section: string | null;
+  fields: FormField[];
+}
+
+// Consecutive fields from the same chunk and section are shown together
+const groupFields = (fields: FormField[]): FieldGroup[] =>
+  fields.reduce<FieldGroup[]>((groups, field) => {
+    const last = groups[groups.length - 1];
+    if (
+      last &&
+      last.section === field.section &&
+      last.fields[0].chunkId === field.chunkId
+    ) {
+      last.fields.push(field);
+    } else {
+      groups.push({ key: field.id, section: field.section, fields: [field] });
+    }
+    return groups;
+  }, []);
+
+const FormFieldsPanel: React.FC<FormFieldsPanelProps> = ({
+  chunks,
+  selectedChunkId,
+  onChunkSelect,
+  onFieldChange,
+}) => {
+  const fields = useMemo(() => getFormFields(chunks), [chunks]);
+  const groups = useMemo(() => groupFields(fields), [fields]);
+  const choiceGroups = useMemo(() => getChoiceGroups(chunks), [chunks]);
+
+  const getJson = () =>
+    JSON.stringify(formFieldsToJson(fields, choiceGroups), null, 2);
+
+  const copyJson = () => {
+    navigator.clipboard
+      .writeText(getJson())
+      .then(() => toast.success("Copied to clipboard!"))
+      .catch(() => toast.error("Failed to copy fields"));
+  };
+
+  if (fields.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center py-12 px-6">
+        <ListTree className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="text-sm font-medium">No form fields found</p>
+        <p className="text-xs text-muted-foreground mt-1 max-w-xs">
+          Labelled values and checkboxes are read from form and key-value
+          chunks.
+        </p>
+      </div>
+    );
+  }
+
+  // What the text reads as once typed, when that's more than plain text
+  const renderNormalizedValue = (value: string, label: string) => {
+    const normalized = normalizeValue(value, label);
+    if (normalized.kind === "text") return null;
+    return (
+      <span className="block mt-0.5 text-[10px] text-muted-foreground truncate">
+        {normalized.kind === "blank"
+          ? "Blank"
+          : `${VALUE_KIND_LABELS[normalized.kind]} · ${formatNormalizedValue(
+              normalized
+            )}`}
+      </span>
+    );
+  };
+
+  const renderField = (field: FormField) => (
+    <div
+      key={field.id}
+      className={cn(
+        "grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_auto] items-start gap-3 px-3 py-1.5",
+        field.chunkId === selectedChunkId && "bg-primary/5"
+      )}
+    >
+      <button
+        type="button"
+        className="text-left text-xs leading-7 text-muted-foreground hover:text-foreground truncate"
+        onClick={() => onChunkSelect(field.chunkId)}
+        title={`${field.label} — show on page`}
+      >
+        {field.label}
+      </button>
+      {field.kind === "checkbox" ? (
+        <Checkbox
+          checked={!!field.checked}
+          disabled={!onFieldChange}
+          onCheckedChange={(checked) =>
+            onFieldChange?.(field, checked === true)
+          }
+          className="mt-1.5"
+          aria-label={field.label}
+        />
+      ) : (
+        <div className="min-w-0">
+          <Input
+            // Remount when the value changes elsewhere, e.g. on undo
+            key={`${field.id}-${field.value}`}
+            defaultValue={field.value}
+            readOnly={!onFieldChange}
+            onBlur={(e) => {
+              if (onFieldChange && e.target.value !== field.value) {
+                onFieldChange(field, e.target.value);
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.currentTarget.blur();
+              }
+            }}
+            className="h-7 text-xs"
+            aria-label={field.label}
+          />
+          {renderNormalizedValue(field.value, field.label)}
+        </div>
+      )}
+      <span className="text-[10px] leading-7 text-muted-foreground w-10 text-right">
+        {field.grounding?.[0] ? `p. ${field.grounding[0].page + 1}` : ""}
+      </span>
+    </div>
+  );
+
+  const renderChoice = (group: ChoiceGroup) => {
+    const issue = describeChoiceIssue(group);
+    return (
+      <button
+        key={group.id}
+        type="button"
+        className={cn(
+          "grid w-full grid-cols-[minmax(0,2fr)_minmax(0,3fr)] items-center gap-3 px-3 py-1.5 text-left hover:bg-muted/50",
+          group.chunkId === selectedChunkId && "bg-primary/5"
+        )}
+        onClick={() => onChunkSelect(group.chunkId)}
+        title={group.label}
+      >
+        <span className="text-xs text-muted-foreground truncate">
+          {group.label}
+        </span>
+        {issue ? (
+          <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">
+              {group.selected.length > 0
+                ? `${group.selected.join(", ")} — ${issue}`
+                : issue}
+            </span>
+          </span>
+        ) : (
+          <span className="text-xs font-medium truncate">
+            {group.selected.join(", ")}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {fields.length} {fields.length === 1 ? "field" : "fields"}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={copyJson}>
+            <Copy className="h-4 w-4 mr-1" />
+            Copy JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              downloadFile(getJson(), "form-fields.json", "application/json")
+            }
+          >
+            <FileDown className="h-4 w-4 mr-1" />
+            Download JSON
+          </Button>
+        </div>
+      </div>
+
+      {choiceGroups.length > 0 && (
+        <div className="rounded-lg border border-border bg-card overflow-hidden">
+          <div className="px-3 py-2 border-b border-border bg-muted/50 text-xs font-medium">
+            Choices
+          </div>
+          <div className="py-1">{choiceGroups.map(renderChoice)}</div>
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div
+          key={group.key}
+          className="rounded-lg border border-border bg-card overflow-hidden"
+        >
+          {group.section && (
+            <div className="px-3 py-2 border-b border-border bg-muted/50 text-xs font-medium">
+              {group.section}
+            </div>
+          )}
+          <div className="py-1">{group.fields.map(renderField)}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FormFieldsPanel;
@@ -0,0 +1,244 @@
+import React from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Copy,
+  FileDown,
+  Receipt,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import {
+  formatAmount,
+  Invoice,
+  INVOICE_HEADER_LABELS,
+  INVOICE_TOTAL_LABELS,
+  InvoiceHeaderKey,
+  InvoiceTotalKey,
+  invoiceToJson,
+  InvoiceValue,
+  lineItemsToCsv,
+} from "@/lib/invoice";
+import { formatNormalizedValue } from "@/lib/normalize";
+
+interface InvoicePanelProps {
+  invoice: Invoice;
+  selectedChunkId?: string;
+  onChunkSelect: (chunkId: string) => void;
+}
+
+const InvoicePanel: React.FC<InvoicePanelProps> = ({
+  invoice,
+  selectedChunkId,
+  onChunkSelect,
+}) => {
+  const getJson = () => JSON.stringify(invoiceToJson(invoice), null, 2);
+
+  const copyJson = () => {
+    navigator.clipboard
+      .writeText(getJson())
+      .then(() => toast.success("Copied to clipboard!"))
+      .catch(() => toast.error("Failed to copy invoice"));
+  };
+
+  const renderValue = (label: string, value: InvoiceValue | null) => (
+    <button
+      key={label}
+      type="button"
+      disabled={!value}
+      className={cn(
+        "grid w-full grid-cols-[minmax(0,2fr)_minmax(0,3fr)] items-center gap-3 px-3 py-1.5 text-left enabled:hover:bg-muted/50",
+        value && value.chunkId === selectedChunkId && "bg-primary/5"
+      )}
+      onClick={() => value && onChunkSelect(value.chunkId)}
+      title={value ? `${label}: ${value.raw} — show on page` : undefined}
+    >
+      <span className="text-xs text-muted-foreground truncate">{label}</span>
+      {value ? (
+        <span className="text-xs font-medium truncate">
+          {value.normalized.kind === "text"
+            ? value.raw
+            : formatNormalizedValue(value.normalized)}
+        </span>
+      ) : (
+        <span className="text-xs text-muted-foreground italic">Not found</span>
+      )}
+    </button>
+  );
+
+  const failedChecks = invoice.checks.filter((check) => !check.passed);
+  const lineIssues = invoice.lineItems.filter((item) => item.issue);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        {invoice.isReconciled ? (
+          <span className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            Reconciled
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-sm text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4" />
+            {invoice.checks.length === 0
+              ? "Nothing to reconcile"
+              : `${failedChecks.length + lineIssues.length} ${
+                  failedChecks.length + lineIssues.length === 1
+                    ? "mismatch"
+                    : "mismatches"
+                }`}
+          </span>
+        )}
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={copyJson}>
+            <Copy className="h-4 w-4 mr-1" />
+            Copy JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              downloadFile(getJson(), "invoice.json", "application/json")
+            }
+          >
+            <FileDown className="h-4 w-4 mr-1" />
+            JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={invoice.lineItems.length === 0}
+            onClick={() =>
+              downloadFile(
+                lineItemsToCsv(invoice.lineItems),
+                "invoice-line-items.csv",
+                "text/csv"
+              )
+            }
+          >
+            <FileDown className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border bg-card overflow-hidden">
+        <div className="px-3 py-2 border-b border-border bg-muted/50 text-xs font-medium">
+          Invoice
+        </div>
+        <div className="py-1">
+          {(Object.keys(INVOICE_HEADER_LABELS) as InvoiceHeaderKey[]).map(
+            (key) =>
+              renderValue(INVOICE_HEADER_LABELS[key], invoice.header[key])
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border bg-card overflow-hidden">
+        <div className="px-3 py-2 border-b border-border bg-muted/50 text-xs font-medium">
+          Line items
+        </div>
+        {invoice.lineItems.length === 0 ? (
+          <div className="flex flex-col items-center text-center py-6 px-6">
+            <Receipt className="h-8 w-8 text-muted-foreground mb-2" />
+            <p className="text-xs text-muted-foreground max-w-xs">
+              No table with description and amount columns was found.
+            </p>
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="px-3 py-1.5 text-left font-medium">
+                  Description
+                </th>
+                <th className="px-3 py-1.5 text-right font-medium">Qty</th>
+                <th className="px-3 py-1.5 text-right font-medium">
+                  Unit price
+                </th>
+                <th className="px-3 py-1.5 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.lineItems.map((item, index) => (
+                <tr
+                  key={`${item.chunkId}-${index}`}
+                  className={cn(
+                    "border-t border-border cursor-pointer hover:bg-muted/50",
+                    item.chunkId === selectedChunkId && "bg-primary/5",
+                    item.issue && "bg-destructive/5"
+                  )}
+                  onClick={() => onChunkSelect(item.chunkId)}
+                  title={item.issue || undefined}
+                >
+                  <td className="px-3 py-1.5">
+                    <span className="flex items-center gap-1">
+                      {item.issue && (
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-destructive" />
+                      )}
+                      {item.description}
+                    </span>
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">
+                    {item.quantity ?? ""}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">
+                    {item.unitPrice !== null
+                      ? formatAmount(item.unitPrice)
+                      : ""}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">
+                    {item.amount !== null ? formatAmount(item.amount) : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border bg-card overflow-hidden">
+        <div className="px-3 py-2 border-b border-border bg-muted/50 text-xs font-medium">
+          Totals
+        </div>
+        <div className="py-1">
+          {(Object.keys(INVOICE_TOTAL_LABELS) as InvoiceTotalKey[]).map((key) =>
+            renderValue(INVOICE_TOTAL_LABELS[key], invoice.totals[key])
+          )}
+        </div>
+        {invoice.checks.length > 0 && (
+          <div className="border-t border-border px-3 py-2 space-y-1">
+            {invoice.checks.map((check) => (
+              <div
+                key={check.label}
+                className={cn(
+                  "flex items-center gap-1 text-xs",
+                  check.passed
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-destructive"
+                )}
+              >
+                {check.passed ? (
+                  <CheckCircle2 className="h-3.5 w-3.5 shrink-0" />
+                ) : (
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                )}
+                <span>
+                  {check.label}
+                  {!check.passed &&
+                    `: ${formatAmount(check.actual)}, expected ${formatAmount(
+                      check.expected
+                    )}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvoicePanel;
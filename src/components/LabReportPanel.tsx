@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  Copy,
+  FileDown,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import {
+  LAB_FLAG_LABELS,
+  LabFlag,
+  LabResult,
+  labResultsToCsv,
+  labResultsToJson,
+} from "@/lib/labReport";
+
+interface LabReportPanelProps {
+  results: LabResult[];
+  selectedChunkId?: string;
+  onChunkSelect: (chunkId: string) => void;
+}
+
+const FLAG_ICONS: Record<LabFlag, React.ElementType> = {
+  high: ArrowUp,
+  low: ArrowDown,
+  abnormal: AlertTriangle,
+};
+
+const LabReportPanel: React.FC<LabReportPanelProps> = ({
+  results,
+  selectedChunkId,
+  onChunkSelect,
+}) => {
+  const [showAbnormalOnly, setShowAbnormalOnly] = useState(false);
+
+  const abnormalCount = results.filter((result) => result.flag).length;
+  const shownResults = showAbnormalOnly
+    ? results.filter((result) => result.flag)
+    : results;
+
+  const getJson = () => JSON.stringify(labResultsToJson(results), null, 2);
+
+  const copyJson = () => {
+    navigator.clipboard
+      .writeText(getJson())
+      .then(() => toast.success("Copied to clipboard!"))
+      .catch(() => toast.error("Failed to copy results"));
+  };
+
+  const renderFlag = (result: LabResult) => {
+    if (!result.flag) return null;
+    const Icon = FLAG_ICONS[result.flag];
+    return (
+      <span
+        className="inline-flex items-center gap-0.5 font-medium"
+        title={
+          result.reportedFlag
+            ? `Flagged "${result.reportedFlag}" on the report`
+            : undefined
+        }
+      >
+        <Icon className="h-3 w-3" />
+        {LAB_FLAG_LABELS[result.flag]}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        {abnormalCount > 0 ? (
+          <span className="flex items-center gap-1 text-sm text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4" />
+            {abnormalCount} of {results.length} results out of range
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            All {results.length} results in range
+          </span>
+        )}
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={copyJson}>
+            <Copy className="h-4 w-4 mr-1" />
+            Copy JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              downloadFile(getJson(), "lab-results.json", "application/json")
+            }
+          >
+            <FileDown className="h-4 w-4 mr-1" />
+            JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              downloadFile(
+                labResultsToCsv(results),
+                "lab-results.csv",
+                "text/csv"
+              )
+            }
+          >
+            <FileDown className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Checkbox
+          checked={showAbnormalOnly}
+          onCheckedChange={(checked) => setShowAbnormalOnly(checked === true)}
+          disabled={abnormalCount === 0}
+        />
+        Only results out of range
+      </label>
+
+      <div className="rounded-lg border border-border bg-card overflow-hidden">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50">
+            <tr className="text-muted-foreground">
+              <th className="px-3 py-2 text-left font-medium">Analyte</th>
+              <th className="px-3 py-2 text-right font-medium">Value</th>
+              <th className="px-3 py-2 text-left font-medium">Unit</th>
+              <th className="px-3 py-2 text-left font-medium">
+                Reference range
+              </th>
+              <th className="px-3 py-2 text-left font-medium">Flag</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownResults.map((result) => (
+              <tr
+                key={result.id}
+                className={cn(
+                  "border-t border-border cursor-pointer hover:bg-muted/50",
+                  result.chunkId === selectedChunkId && "bg-primary/5",
+                  result.flag &&
+                    "bg-amber-500/10 text-amber-700 dark:text-amber-400"
+                )}
+                onClick={() => onChunkSelect(result.chunkId)}
+                title="Show on page"
+              >
+                <td className="px-3 py-1.5">{result.analyte}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums font-medium">
+                  {result.raw}
+                </td>
+                <td className="px-3 py-1.5 text-muted-foreground">
+                  {result.unit}
+                </td>
+                <td className="px-3 py-1.5 text-muted-foreground">
+                  {result.referenceRange}
+                </td>
+                <td className="px-3 py-1.5">{renderFlag(result)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LabReportPanel;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef } from "react";
+import { AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import PdfPageCanvas from "@/components/PdfPageCanvas";
+import { useVisiblePages } from "@/hooks/use-visible-pages";
+import { PDFDocumentProxy } from "@/lib/pdf";
+import { isSideways, Rotation } from "@/lib/geometry";
+import {
+  DocumentChunk,
+  Error as DocumentError,
+} from "@/services/documentService";
+
+interface PageThumbnailsProps {
+  pageCount: number;
+  currentPage: number;
+  onPageSelect: (page: number) => void;
+  chunks: DocumentChunk[];
+  errors?: DocumentError[];
+  pdf?: PDFDocumentProxy | null;
+  imageUrl?: string;
+  pageRotations?: Record<number, Rotation>;
+}
+
+const THUMBNAIL_WIDTH = 96;
+
+const PageThumbnails: React.FC<PageThumbnailsProps> = ({
+  pageCount,
+  currentPage,
+  onPageSelect,
+  chunks,
+  errors = [],
+  pdf,
+  imageUrl,
+  pageRotations = {},
+}) => {
+  const activeThumbnailRef = useRef<HTMLButtonElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const thumbnailRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // PDF pages are only rendered once scrolled near, as in the main view
+  const visiblePages = useVisiblePages(
+    containerRef,
+    thumbnailRefs,
+    pageCount,
+    !!pdf
+  );
+
+  // Keep the active page visible when paging with the toolbar buttons
+  useEffect(() => {
+    activeThumbnailRef.current?.scrollIntoView({ block: "nearest" });
+  }, [currentPage]);
+
+  // Count chunks grounded on each page (API uses 0-indexed pages)
+  const chunkCounts = new Array(pageCount).fill(0);
+  chunks.forEach((chunk) => {
+    const pages = new Set((chunk.grounding || []).map((g) => g.page));
+    pages.forEach((page) => {
+      if (page >= 0 && page < pageCount) {
+        chunkCounts[page] += 1;
+      }
+    });
+  });
+
+  const getPageErrors = (pageIndex: number) =>
+    errors.filter((error) => error.page_num === pageIndex);
+
+  const renderThumbnail = (pageNumber: number) => {
+    const rotation = pageRotations[pageNumber - 1] || 0;
+
+    if (pdf && visiblePages.has(pageNumber - 1)) {
+      return (
+        <PdfPageCanvas
+          pdf={pdf}
+          pageNumber={pageNumber}
+          width={THUMBNAIL_WIDTH}
+          rotation={rotation}
+          className="bg-white"
+        />
+      );
+    }
+
+    // Images only have a single page to show
+    if (imageUrl && pageNumber === 1) {
+      return (
+        <img
+          src={imageUrl}
+          alt={`Page ${pageNumber}`}
+          className="block object-contain"
+          style={{
+            width: THUMBNAIL_WIDTH,
+            height: isSideways(rotation) ? THUMBNAIL_WIDTH : undefined,
+            transform: rotation ? `rotate(${rotation}deg)` : undefined,
+          }}
+        />
+      );
+    }
+
+    return (
+      <div
+        className="bg-muted flex items-center justify-center text-xs text-muted-foreground"
+        style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH * 1.3 }}
+      >
+        {pageNumber}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-32 shrink-0 border-r border-border overflow-y-auto bg-background p-2 space-y-3"
+    >
+      {Array.from({ length: pageCount }, (_, pageIndex) => {
+        const pageNumber = pageIndex + 1;
+        const pageErrors = getPageErrors(pageIndex);
+        const isActive = pageNumber === currentPage;
+
+        return (
+          <button
+            key={pageNumber}
+            ref={(element) => {
+              thumbnailRefs.current[pageIndex] = element;
+              if (isActive) activeThumbnailRef.current = element;
+            }}
+            data-page-index={pageIndex}
+            type="button"
+            onClick={() => onPageSelect(pageNumber)}
+            title={
+              pageErrors.length > 0
+                ? pageErrors.map((error) => error.error).join("\n")
+                : `Page ${pageNumber}`
+            }
+            className={cn(
+              "relative block w-full rounded-md border-2 p-1 transition-colors",
+              isActive
+                ? "border-primary bg-primary/5"
+                : "border-transparent hover:border-primary/50"
+            )}
+          >
+            <div className="flex justify-center overflow-hidden rounded-sm">
+              {renderThumbnail(pageNumber)}
+            </div>
+
+            <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
+              {chunkCounts[pageIndex] > 0 && (
+                <span className="text-[10px] leading-none px-1.5 py-0.5 rounded-full bg-green-500 text-white">
+                  {chunkCounts[pageIndex]}
+                </span>
+              )}
+              {pageErrors.length > 0 && (
+                <span className="flex items-center text-[10px] leading-none px-1.5 py-0.5 rounded-full bg-destructive text-destructive-foreground">
+                  <AlertCircle className="h-2.5 w-2.5 mr-0.5" />
+                  {pageErrors.length}
+                </span>
+              )}
+            </div>
+
+            <div className="mt-1 text-xs text-muted-foreground">
+              {pageNumber}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PageThumbnails;
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import {
+  isRenderCancelled,
+  PDFDocumentProxy,
+  renderPdfPage,
+  RenderTask,
+} from "@/lib/pdf";
+
+interface PdfPageCanvasProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number; // 1-indexed, as in pdf.js
+  width: number;
+  rotation?: number;
+  className?: string;
+  onRendered?: () => void;
+}
+
+const PdfPageCanvas: React.FC<PdfPageCanvasProps> = ({
+  pdf,
+  pageNumber,
+  width,
+  rotation = 0,
+  className,
+  onRendered,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read when rendering finishes, so a new callback doesn't re-render the page
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
+
+  useEffect(() => {
+    if (!canvasRef.current || width <= 0) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf
+      .getPage(pageNumber)
+      .then((page) => {
+        if (cancelled || !canvasRef.current) return;
+        renderTask = renderPdfPage(page, canvasRef.current, width, rotation);
+        return renderTask.promise;
+      })
+      .then(() => {
+        if (!cancelled) {
+          onRenderedRef.current?.();
+        }
+      })
+      .catch((error) => {
+        if (!isRenderCancelled(error)) {
+          console.error(`Error rendering PDF page ${pageNumber}:`, error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, width, rotation]);
+
+  return <canvas ref={canvasRef} className={cn("block", className)} />;
+};
+
+export default PdfPageCanvas;
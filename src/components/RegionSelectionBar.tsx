@@ -0,0 +1,108 @@
+import React from "react";
+import { Combine, Copy, FileDown, MessageSquare, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { toPlainText } from "@/lib/search";
+import { downloadFile } from "@/lib/download";
+import { DocumentChunk } from "@/services/documentService";
+
+interface RegionSelectionBarProps {
+  chunks: DocumentChunk[];
+  onAskAboutRegion?: (chunks: DocumentChunk[]) => void;
+  onMerge?: (chunks: DocumentChunk[]) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const RegionSelectionBar: React.FC<RegionSelectionBarProps> = ({
+  chunks,
+  onAskAboutRegion,
+  onMerge,
+  onClear,
+  className,
+}) => {
+  const handleCopy = () => {
+    const text = chunks.map((chunk) => toPlainText(chunk.text)).join("\n\n");
+    navigator.clipboard
+      .writeText(text)
+      .then(() => toast.success("Copied to clipboard!"))
+      .catch(() => toast.error("Failed to copy text"));
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      JSON.stringify({ chunks }, null, 2),
+      "region-selection.json",
+      "application/json"
+    );
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 rounded-md border bg-popover text-popover-foreground shadow-md px-2 py-1",
+        className
+      )}
+    >
+      <span className="text-xs px-1 whitespace-nowrap">
+        {chunks.length} {chunks.length === 1 ? "chunk" : "chunks"} selected
+      </span>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-7 text-xs"
+        onClick={handleCopy}
+        disabled={chunks.length === 0}
+      >
+        <Copy className="h-3 w-3 mr-1" />
+        Copy
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-7 text-xs"
+        onClick={handleExport}
+        disabled={chunks.length === 0}
+      >
+        <FileDown className="h-3 w-3 mr-1" />
+        Export
+      </Button>
+      {onAskAboutRegion && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs"
+          onClick={() => onAskAboutRegion(chunks)}
+          disabled={chunks.length === 0}
+        >
+          <MessageSquare className="h-3 w-3 mr-1" />
+          Ask about this region
+        </Button>
+      )}
+      {onMerge && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs"
+          onClick={() => onMerge(chunks)}
+          disabled={chunks.length < 2}
+        >
+          <Combine className="h-3 w-3 mr-1" />
+          Merge
+        </Button>
+      )}
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7"
+        onClick={onClear}
+        title="Clear selection"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
+export default RegionSelectionBar;
@@ -2,13 +2,7 @@
 import React from 'react';
 import { Folder, FolderOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-export interface FileItem {
-  id: string;
-  name: string;
-  type: string;
-  thumbnail?: string;
-}
+import { FileItem } from '@/lib/files';
 
 interface SidebarProps {
   files: FileItem[];
@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ClipboardCopy, FileDown, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Markdown } from "@/components/ui/markdown";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import {
+  getTableMatrix,
+  parseTable,
+  replaceTable,
+  TableGrid,
+  tableToCsv,
+  tableToJsonRows,
+  tableToTsv,
+} from "@/lib/tables";
+
+type ExportFormat = "csv" | "tsv" | "json";
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; type: string }[] =
+  [
+    { format: "csv", label: "CSV", type: "text/csv" },
+    { format: "tsv", label: "TSV", type: "text/tab-separated-values" },
+    { format: "json", label: "JSON rows", type: "application/json" },
+  ];
+
+interface TableGridEditorProps {
+  // Chunk text containing the table, possibly with text around it
+  text: string;
+  // Used for the names of exported files, e.g. "Table 2"
+  name: string;
+  onChange?: (text: string) => void;
+}
+
+const TableGridEditor: React.FC<TableGridEditorProps> = ({
+  text,
+  name,
+  onChange,
+}) => {
+  const grid = useMemo(() => parseTable(text), [text]);
+  // Cell edits are kept locally and saved when a cell loses focus
+  const [draft, setDraft] = useState<TableGrid | null>(grid);
+
+  useEffect(() => {
+    setDraft(grid);
+  }, [grid]);
+
+  if (!grid || !draft) {
+    return <Markdown content={text} />;
+  }
+
+  const hasRowSpans = draft.rows.some((row) =>
+    row.some((cell) => cell.rowSpan > 1)
+  );
+
+  const commit = (next: TableGrid) => {
+    setDraft(next);
+    const nextText = replaceTable(text, next);
+    if (onChange && nextText !== text) {
+      onChange(nextText);
+    }
+  };
+
+  const updateCell = (rowIndex: number, cellIndex: number, value: string) => {
+    setDraft({
+      ...draft,
+      rows: draft.rows.map((row, r) =>
+        r === rowIndex
+          ? row.map((cell, c) =>
+              c === cellIndex ? { ...cell, text: value } : cell
+            )
+          : row
+      ),
+    });
+  };
+
+  const addRow = () => {
+    const width = getTableMatrix(draft)[0]?.length || 1;
+    commit({
+      ...draft,
+      rows: [
+        ...draft.rows,
+        Array.from({ length: width }, () => ({
+          text: "",
+          isHeader: false,
+          rowSpan: 1,
+          colSpan: 1,
+        })),
+      ],
+    });
+  };
+
+  const deleteRow = (rowIndex: number) => {
+    commit({ ...draft, rows: draft.rows.filter((_, r) => r !== rowIndex) });
+  };
+
+  const formatTable = (format: ExportFormat) => {
+    if (format === "json") {
+      return JSON.stringify(tableToJsonRows(draft), null, 2);
+    }
+    const matrix = getTableMatrix(draft);
+    return format === "csv" ? tableToCsv(matrix) : tableToTsv(matrix);
+  };
+
+  const copyTable = (format: ExportFormat) => {
+    navigator.clipboard
+      .writeText(formatTable(format))
+      .then(() => toast.success("Copied to clipboard!"))
+      .catch(() => toast.error("Failed to copy table"));
+  };
+
+  const downloadTable = (format: ExportFormat, type: string) => {
+    const filename = name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadFile(formatTable(format), `${filename}.${format}`, type);
+  };
+
+  const before = text.slice(0, grid.start).trim();
+  const after = text.slice(grid.end).trim();
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {before && <Markdown content={before} />}
+
+      <div className="overflow-auto">
+        <table className="text-xs border-collapse">
+          <tbody>
+            {draft.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="group">
+                {row.map((cell, cellIndex) => {
+                  const Cell = cell.isHeader ? "th" : "td";
+                  return (
+                    <Cell
+                      key={cellIndex}
+                      rowSpan={cell.rowSpan}
+                      colSpan={cell.colSpan}
+                      className={cn(
+                        "border border-border p-0 align-top",
+                        cell.isHeader && "bg-muted font-medium"
+                      )}
+                    >
+                      {onChange ? (
+                        <input
+                          value={cell.text}
+                          onChange={(e) =>
+                            updateCell(rowIndex, cellIndex, e.target.value)
+                          }
+                          onBlur={() => {
+                            // Only save when a cell was actually edited, so
+                            // that reformatting the table never counts as an edit
+                            if (draft !== grid) commit(draft);
+                          }}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              e.currentTarget.blur();
+                            }
+                          }}
+                          className="w-full min-w-[6rem] bg-transparent px-2 py-1 outline-none focus:bg-primary/5 focus:ring-1 focus:ring-inset focus:ring-primary"
+                        />
+                      ) : (
+                        <div className="px-2 py-1">{cell.text}</div>
+                      )}
+                    </Cell>
+                  );
+                })}
+                {onChange && !hasRowSpans && (
+                  <td className="pl-1 align-middle">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5 opacity-0 group-hover:opacity-100"
+                      onClick={() => deleteRow(rowIndex)}
+                      title="Delete row"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-1">
+        {onChange && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={addRow}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add row
+          </Button>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-7 text-xs">
+              <FileDown className="h-3 w-3 mr-1" />
+              Export table
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem
+                key={`copy-${format}`}
+                className="text-xs"
+                onClick={() => copyTable(format)}
+              >
+                <ClipboardCopy className="h-3 w-3 mr-2" />
+                Copy as {label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            {EXPORT_FORMATS.map(({ format, label, type }) => (
+              <DropdownMenuItem
+                key={`download-${format}`}
+                className="text-xs"
+                onClick={() => downloadTable(format, type)}
+              >
+                <FileDown className="h-3 w-3 mr-2" />
+                Download {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {after && <Markdown content={after} />}
+    </div>
+  );
+};
+
+export default TableGridEditor;
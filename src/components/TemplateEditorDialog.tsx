@@ -0,0 +1,500 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Crop, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import FieldRulesEditor from "@/components/FieldRulesEditor";
+import { CHUNK_TYPES, ChunkType, getChunkTypeStyle } from "@/lib/chunkTypes";
+import { RegionSelection } from "@/lib/geometry";
+import {
+  ExtractionTemplate,
+  SumCheck,
+  TEMPLATE_FIELD_TYPES,
+  TemplateField,
+  TemplateFieldType,
+} from "@/lib/templates";
+
+interface TemplateEditorDialogProps {
+  // The template being edited; the dialog is open while this is set
+  template: ExtractionTemplate | null;
+  // Region drawn on the page, offered as a matching hint
+  selectedRegion?: RegionSelection | null;
+  onSave: (template: ExtractionTemplate) => void;
+  onClose: () => void;
+}
+
+const ANY_CHUNK_TYPE = "any";
+
+const emptyField = (): TemplateField => ({
+  name: "",
+  type: "text",
+  required: false,
+  match: { label: "" },
+});
+
+const TemplateEditorDialog: React.FC<TemplateEditorDialogProps> = ({
+  template,
+  selectedRegion,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<ExtractionTemplate | null>(template);
+  // Name of the field being renamed, as it was before the edit began
+  const renamingFrom = useRef("");
+
+  useEffect(() => {
+    setDraft(template);
+  }, [template]);
+
+  if (!draft) return null;
+
+  const updateField = (index: number, changes: Partial<TemplateField>) => {
+    setDraft({
+      ...draft,
+      fields: draft.fields.map((field, i) =>
+        i === index ? { ...field, ...changes } : field
+      ),
+    });
+  };
+
+  // Once a rename is done, sum checks and required-if rules follow the field.
+  // They're left alone when the name is cleared or taken by another field,
+  // to be reported until fixed.
+  const finishRename = (index: number) => {
+    const from = renamingFrom.current;
+    const to = draft.fields[index].name.trim();
+    const taken = draft.fields.some(
+      (field, i) => i !== index && field.name.trim() === to
+    );
+    const rename = (other: string) =>
+      from && to && !taken && other === from ? to : other;
+    setDraft({
+      ...draft,
+      fields: draft.fields.map((field, i) => {
+        if (i === index) return { ...field, name: to };
+        const requiredIf = field.rules?.requiredIf;
+        return requiredIf
+          ? {
+              ...field,
+              rules: {
+                ...field.rules,
+                requiredIf: { ...requiredIf, field: rename(requiredIf.field) },
+              },
+            }
+          : field;
+      }),
+      sumChecks: draft.sumChecks?.map((check) => ({
+        ...check,
+        total: rename(check.total),
+        fields: check.fields.map(rename),
+      })),
+    });
+  };
+
+  const updateMatch = (
+    index: number,
+    changes: Partial<TemplateField["match"]>
+  ) => {
+    const field = draft.fields[index];
+    updateField(index, { match: { ...field.match, ...changes } });
+  };
+
+  const fieldNames = draft.fields
+    .map((field) => field.name.trim())
+    .filter(Boolean);
+  const duplicateNames = Array.from(
+    new Set(fieldNames.filter((name, i) => fieldNames.indexOf(name) !== i))
+  );
+  const sumChecks = draft.sumChecks || [];
+
+  const updateSumChecks = (next: SumCheck[]) => {
+    setDraft({ ...draft, sumChecks: next });
+  };
+
+  const updateSumCheck = (index: number, changes: Partial<SumCheck>) => {
+    updateSumChecks(
+      sumChecks.map((check, i) =>
+        i === index ? { ...check, ...changes } : check
+      )
+    );
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      name: draft.name.trim() || "Untitled template",
+      fields: draft.fields
+        .map((field) => ({ ...field, name: field.name.trim() }))
+        .filter((field) => field.name),
+      sumChecks: sumChecks.filter(
+        (check) => check.total && check.fields.length > 0
+      ),
+    });
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Extraction template</DialogTitle>
+        </DialogHeader>
+
+        <Input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Template name, e.g. Vendor invoice"
+        />
+
+        <div className="max-h-[50vh] overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr className="text-left">
+                <th className="font-medium p-1">Field</th>
+                <th className="font-medium p-1">Type</th>
+                <th className="font-medium p-1">Required</th>
+                <th className="font-medium p-1">Label on the page</th>
+                <th className="font-medium p-1">Chunk type</th>
+                <th className="font-medium p-1">Page</th>
+                <th className="font-medium p-1">Region</th>
+                <th className="font-medium p-1">Rules</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.fields.map((field, index) => (
+                <tr key={index}>
+                  <td className="p-1">
+                    <Input
+                      value={field.name}
+                      onFocus={() => {
+                        renamingFrom.current = field.name.trim();
+                      }}
+                      onChange={(e) =>
+                        updateField(index, { name: e.target.value })
+                      }
+                      onBlur={() => finishRename(index)}
+                      placeholder="invoice_number"
+                      className="h-8 text-xs"
+                    />
+                  </td>
+                  <td className="p-1">
+                    <Select
+                      value={field.type}
+                      onValueChange={(value) =>
+                        updateField(index, {
+                          type: value as TemplateFieldType,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-28 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEMPLATE_FIELD_TYPES.map((type) => (
+                          <SelectItem
+                            key={type}
+                            value={type}
+                            className="text-xs"
+                          >
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="p-1 text-center">
+                    <Checkbox
+                      checked={field.required}
+                      onCheckedChange={(checked) =>
+                        updateField(index, { required: checked === true })
+                      }
+                      aria-label="Required"
+                    />
+                  </td>
+                  <td className="p-1">
+                    <Input
+                      value={field.match.label || ""}
+                      onChange={(e) =>
+                        updateMatch(index, {
+                          label: e.target.value || undefined,
+                        })
+                      }
+                      placeholder="Invoice No."
+                      className="h-8 text-xs"
+                    />
+                  </td>
+                  <td className="p-1">
+                    <Select
+                      value={field.match.chunkType || ANY_CHUNK_TYPE}
+                      onValueChange={(value) =>
+                        updateMatch(index, {
+                          chunkType:
+                            value === ANY_CHUNK_TYPE
+                              ? undefined
+                              : (value as ChunkType),
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_CHUNK_TYPE} className="text-xs">
+                          Any
+                        </SelectItem>
+                        {CHUNK_TYPES.map((type) => (
+                          <SelectItem
+                            key={type}
+                            value={type}
+                            className="text-xs"
+                          >
+                            {getChunkTypeStyle(type).label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="p-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={field.match.page ?? ""}
+                      onChange={(e) =>
+                        updateMatch(index, {
+                          page: e.target.value
+                            ? Number(e.target.value)
+                            : undefined,
+                        })
+                      }
+                      placeholder="Any"
+                      className="h-8 w-16 text-xs"
+                    />
+                  </td>
+                  <td className="p-1">
+                    {field.match.region ? (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="h-7 text-xs"
+                        onClick={() =>
+                          updateMatch(index, { region: undefined })
+                        }
+                        title="Clear the region"
+                      >
+                        Set
+                        <X className="h-3 w-3 ml-1" />
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 text-xs"
+                        disabled={!selectedRegion}
+                        onClick={() =>
+                          selectedRegion &&
+                          updateMatch(index, {
+                            page: selectedRegion.page + 1,
+                            region: selectedRegion.box,
+                          })
+                        }
+                        title={
+                          selectedRegion
+                            ? "Only look inside the region selected on the page"
+                            : "Select a region on the page first"
+                        }
+                      >
+                        <Crop className="h-3 w-3 mr-1" />
+                        Use selection
+                      </Button>
+                    )}
+                  </td>
+                  <td className="p-1">
+                    <FieldRulesEditor
+                      rules={field.rules}
+                      otherFieldNames={fieldNames.filter(
+                        (name) => name !== field.name
+                      )}
+                      onChange={(rules) => updateField(index, { rules })}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          fields: draft.fields.filter((_, i) => i !== index),
+                        })
+                      }
+                      title="Remove field"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Sum checks</span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              disabled={fieldNames.length < 2}
+              onClick={() =>
+                updateSumChecks([
+                  ...sumChecks,
+                  { total: fieldNames[fieldNames.length - 1], fields: [] },
+                ])
+              }
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add sum check
+            </Button>
+          </div>
+          {sumChecks.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Check that fields add up to a total, such as line items to the
+              invoice total.
+            </p>
+          )}
+          {sumChecks.map((check, index) => (
+            <div key={index} className="flex items-center gap-2 text-xs">
+              <Select
+                value={check.total}
+                onValueChange={(total) => updateSumCheck(index, { total })}
+              >
+                <SelectTrigger className="h-8 w-44 text-xs">
+                  <SelectValue placeholder="Total field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldNames.map((name) => (
+                    <SelectItem key={name} value={name} className="text-xs">
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">is the sum of</span>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button size="sm" variant="outline" className="h-8 text-xs">
+                    {check.fields.length > 0
+                      ? check.fields.join(" + ")
+                      : "Choose fields"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-56 p-2 space-y-1">
+                  {fieldNames
+                    .filter((name) => name !== check.total)
+                    .map((name) => (
+                      <label
+                        key={name}
+                        className="flex items-center gap-2 text-xs px-1 py-0.5"
+                      >
+                        <Checkbox
+                          checked={check.fields.includes(name)}
+                          onCheckedChange={(checked) =>
+                            updateSumCheck(index, {
+                              fields: checked
+                                ? [...check.fields, name]
+                                : check.fields.filter((f) => f !== name),
+                            })
+                          }
+                        />
+                        {name}
+                      </label>
+                    ))}
+                </PopoverContent>
+              </Popover>
+              <span className="text-muted-foreground">within</span>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={check.tolerance ?? ""}
+                onChange={(e) =>
+                  updateSumCheck(index, {
+                    tolerance: e.target.value
+                      ? Number(e.target.value)
+                      : undefined,
+                  })
+                }
+                placeholder="0.01"
+                className="h-8 w-20 text-xs"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() =>
+                  updateSumChecks(sumChecks.filter((_, i) => i !== index))
+                }
+                title="Remove sum check"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDraft({ ...draft, fields: [...draft.fields, emptyField()] })
+            }
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add field
+          </Button>
+          <div className="flex items-center gap-2">
+            {duplicateNames.length > 0 && (
+              <span className="text-xs text-destructive">
+                Field names must be unique: {duplicateNames.join(", ")}
+              </span>
+            )}
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={duplicateNames.length > 0}
+            >
+              Save template
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateEditorDialog;
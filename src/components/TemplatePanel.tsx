@@ -0,0 +1,293 @@
+import React, { useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  FileDown,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import { RegionSelection } from "@/lib/geometry";
+import { formatNormalizedValue } from "@/lib/normalize";
+import {
+  createTemplateFromDocument,
+  ExtractionTemplate,
+  ResolvedField,
+  TemplateResult,
+  TemplateValue,
+} from "@/lib/templates";
+import { countValidationIssues } from "@/lib/validation";
+import TemplateEditorDialog from "@/components/TemplateEditorDialog";
+import { DocumentResponse } from "@/services/documentService";
+
+interface TemplatePanelProps {
+  documentData: DocumentResponse;
+  templates: ExtractionTemplate[];
+  template: ExtractionTemplate | null;
+  // The selected template filled from the document and validated
+  result: TemplateResult | null;
+  onTemplateSelect: (templateId: string | null) => void;
+  onTemplateSave: (template: ExtractionTemplate) => void;
+  onTemplateDelete: (templateId: string) => void;
+  selectedChunkId?: string;
+  onChunkSelect: (chunkId: string) => void;
+  selectedRegion?: RegionSelection | null;
+}
+
+const NO_TEMPLATE = "none";
+
+const formatValue = (value: TemplateValue) => {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ") || "—";
+  return String(value);
+};
+
+const resultToJson = (template: ExtractionTemplate, result: TemplateResult) =>
+  JSON.stringify(
+    {
+      template: template.name,
+      valid: result.isValid,
+      template_errors: result.errors,
+      record: result.record,
+      fields: result.fields.map((field) => ({
+        name: field.name,
+        value: field.value,
+        value_type: field.normalized?.kind ?? null,
+        raw: field.raw,
+        errors: field.errors,
+        chunk_id: field.chunkId,
+        grounding: field.grounding,
+      })),
+    },
+    null,
+    2
+  );
+
+const TemplatePanel: React.FC<TemplatePanelProps> = ({
+  documentData,
+  templates,
+  template,
+  result,
+  onTemplateSelect,
+  onTemplateSave,
+  onTemplateDelete,
+  selectedChunkId,
+  onChunkSelect,
+  selectedRegion,
+}) => {
+  const [editingTemplate, setEditingTemplate] =
+    useState<ExtractionTemplate | null>(null);
+
+  const problemCount = countValidationIssues(result);
+
+  const handleSave = (saved: ExtractionTemplate) => {
+    onTemplateSave(saved);
+    onTemplateSelect(saved.id);
+    setEditingTemplate(null);
+    toast.success(`Saved template "${saved.name}"`);
+  };
+
+  const handleDelete = () => {
+    if (!template) return;
+    onTemplateDelete(template.id);
+    onTemplateSelect(null);
+    toast.success(`Deleted template "${template.name}"`);
+  };
+
+  const copyResult = () => {
+    if (!template || !result) return;
+    navigator.clipboard
+      .writeText(resultToJson(template, result))
+      .then(() => toast.success("Copied to clipboard!"))
+      .catch(() => toast.error("Failed to copy record"));
+  };
+
+  const renderField = (field: ResolvedField, index: number) => (
+    <button
+      key={`${field.name}-${index}`}
+      type="button"
+      disabled={!field.chunkId}
+      onClick={() => field.chunkId && onChunkSelect(field.chunkId)}
+      className={cn(
+        "grid w-full grid-cols-[minmax(0,2fr)_minmax(0,3fr)] items-start gap-3 px-3 py-1.5 text-left hover:bg-muted/50 disabled:hover:bg-transparent",
+        field.chunkId && field.chunkId === selectedChunkId && "bg-primary/5"
+      )}
+    >
+      <span className="text-xs text-muted-foreground truncate">
+        {field.name}
+        {field.required && <span className="text-destructive"> *</span>}
+      </span>
+      <span className="min-w-0">
+        <span className="block text-xs font-medium truncate">
+          {field.normalized && field.type !== "text" && field.value !== null
+            ? formatNormalizedValue(field.normalized)
+            : formatValue(field.value)}
+        </span>
+        {field.errors.map((error) => (
+          <span
+            key={error}
+            className="flex items-center gap-1 text-[11px] text-destructive"
+          >
+            <AlertCircle className="h-3 w-3 shrink-0" />
+            {error}
+          </span>
+        ))}
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="rounded-lg border border-border bg-card overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border bg-muted/50">
+        <span className="text-xs font-medium">Template</span>
+        <Select
+          value={template ? template.id : NO_TEMPLATE}
+          onValueChange={(value) =>
+            onTemplateSelect(value === NO_TEMPLATE ? null : value)
+          }
+        >
+          <SelectTrigger className="h-7 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE} className="text-xs">
+              No template
+            </SelectItem>
+            {templates.map((t) => (
+              <SelectItem key={t.id} value={t.id} className="text-xs">
+                {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() =>
+              setEditingTemplate(
+                createTemplateFromDocument(
+                  `Template ${templates.length + 1}`,
+                  documentData
+                )
+              )
+            }
+            title="New template from the fields of this document"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            disabled={!template}
+            onClick={() => setEditingTemplate(template)}
+            title="Edit template"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            disabled={!template}
+            onClick={handleDelete}
+            title="Delete template"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {template && result ? (
+        <>
+          <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+            {problemCount === 0 ? (
+              <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                All {result.fields.length} fields resolved
+              </span>
+            ) : (
+              <span className="flex items-center gap-1 text-xs text-destructive">
+                <AlertCircle className="h-3.5 w-3.5" />
+                {problemCount}{" "}
+                {problemCount === 1 ? "problem needs" : "problems need"}{" "}
+                attention
+              </span>
+            )}
+            <div className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={copyResult}
+              >
+                <Copy className="h-3 w-3 mr-1" />
+                Copy
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={() =>
+                  downloadFile(
+                    resultToJson(template, result),
+                    `${template.name
+                      .toLowerCase()
+                      .replace(/[^a-z0-9]+/g, "-")}.json`,
+                    "application/json"
+                  )
+                }
+              >
+                <FileDown className="h-3 w-3 mr-1" />
+                Download
+              </Button>
+            </div>
+          </div>
+          {result.errors.length > 0 && (
+            <div className="px-3 py-2 border-b border-border space-y-1">
+              {result.errors.map((error) => (
+                <span
+                  key={error}
+                  className="flex items-center gap-1 text-[11px] text-destructive"
+                >
+                  <AlertCircle className="h-3 w-3 shrink-0" />
+                  {error}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="py-1">{result.fields.map(renderField)}</div>
+        </>
+      ) : (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          Pick a template to fill it from this document, or create one from the
+          fields found here.
+        </p>
+      )}
+
+      <TemplateEditorDialog
+        template={editingTemplate}
+        selectedRegion={selectedRegion}
+        onSave={handleSave}
+        onClose={() => setEditingTemplate(null)}
+      />
+    </div>
+  );
+};
+
+export default TemplatePanel;
@@ -0,0 +1,70 @@
+import { useCallback, useState } from "react";
+import { DocumentResponse } from "@/services/documentService";
+import { DocumentEdit } from "@/lib/documentEdits";
+
+export interface HistoryEntry {
+  label: string;
+  before: DocumentResponse;
+  after: DocumentResponse;
+  timestamp: number;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  // Number of entries currently applied; the rest can be redone
+  position: number;
+}
+
+const MAX_HISTORY = 100;
+
+const emptyHistory: HistoryState = { entries: [], position: 0 };
+
+// Undo/redo over the document held by the caller. Every edit is recorded as a
+// named command together with the document before and after it.
+export function useDocumentHistory(
+  documentData: DocumentResponse | null,
+  setDocumentData: (documentData: DocumentResponse) => void
+) {
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+
+  const execute = (label: string, edit: DocumentEdit) => {
+    if (!documentData) return;
+    const after = edit(documentData);
+    if (after === documentData) return;
+
+    setHistory((prev) => {
+      const entries = [
+        ...prev.entries.slice(0, prev.position),
+        { label, before: documentData, after, timestamp: Date.now() },
+      ].slice(-MAX_HISTORY);
+      return { entries, position: entries.length };
+    });
+    setDocumentData(after);
+  };
+
+  // Move to the state after the first `position` entries
+  const goTo = (position: number) => {
+    const { entries } = history;
+    if (position < 0 || position > entries.length) return;
+    if (position === history.position) return;
+
+    setDocumentData(
+      position === 0 ? entries[0].before : entries[position - 1].after
+    );
+    setHistory({ entries, position });
+  };
+
+  const reset = useCallback(() => setHistory(emptyHistory), []);
+
+  return {
+    entries: history.entries,
+    position: history.position,
+    canUndo: history.position > 0,
+    canRedo: history.position < history.entries.length,
+    execute,
+    undo: () => goTo(history.position - 1),
+    redo: () => goTo(history.position + 1),
+    goTo,
+    reset,
+  };
+}
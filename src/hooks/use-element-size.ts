@@ -0,0 +1,25 @@
+import { RefObject, useEffect, useState } from "react";
+
+// Track the content box size of an element with a ResizeObserver
+export function useElementSize<T extends HTMLElement>(ref: RefObject<T>) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize((prev) =>
+        prev.width === width && prev.height === height
+          ? prev
+          : { width, height }
+      );
+    });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+}
@@ -0,0 +1,32 @@
+import { useState } from "react";
+import {
+  ExtractionTemplate,
+  loadTemplates,
+  saveTemplates,
+} from "@/lib/templates";
+
+// Extraction templates saved in the browser, with changes written through
+export function useExtractionTemplates() {
+  const [templates, setTemplates] =
+    useState<ExtractionTemplate[]>(loadTemplates);
+
+  const update = (next: ExtractionTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+  };
+
+  const saveTemplate = (template: ExtractionTemplate) => {
+    const saved = { ...template, updatedAt: Date.now() };
+    update(
+      templates.some((t) => t.id === template.id)
+        ? templates.map((t) => (t.id === template.id ? saved : t))
+        : [...templates, saved]
+    );
+  };
+
+  const deleteTemplate = (templateId: string) => {
+    update(templates.filter((t) => t.id !== templateId));
+  };
+
+  return { templates, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,207 @@
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+
+interface ZoomAnchor {
+  element: HTMLElement;
+  clientX: number;
+  clientY: number;
+  // Position of the anchor point as a fraction of the element's size
+  fx: number;
+  fy: number;
+}
+
+interface UsePanZoomOptions {
+  containerRef: RefObject<HTMLElement>;
+  zoom: number;
+  minZoom: number;
+  maxZoom: number;
+  onZoomChange: (zoom: number) => void;
+  // Element that scales with the zoom level under the given point
+  getAnchorElement: (clientX: number, clientY: number) => HTMLElement | null;
+  enabled: boolean;
+}
+
+// Pixels a pointer may move before a press turns into a pan
+const PAN_THRESHOLD = 4;
+
+const distance = (a: PointerEvent, b: PointerEvent) =>
+  Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+
+// Drag-to-pan, ctrl/cmd+wheel zoom and two-finger pinch zoom for a scroll
+// container. Zooming keeps the point under the cursor in place.
+export function usePanZoom({
+  containerRef,
+  zoom,
+  minZoom,
+  maxZoom,
+  onZoomChange,
+  getAnchorElement,
+  enabled,
+}: UsePanZoomOptions) {
+  const [isPanning, setIsPanning] = useState(false);
+  const anchorRef = useRef<ZoomAnchor | null>(null);
+  const latest = useRef({
+    zoom,
+    minZoom,
+    maxZoom,
+    onZoomChange,
+    getAnchorElement,
+  });
+  latest.current = { zoom, minZoom, maxZoom, onZoomChange, getAnchorElement };
+
+  const zoomTo = useCallback(
+    (targetZoom: number, clientX?: number, clientY?: number) => {
+      const container = containerRef.current;
+      const { zoom: currentZoom, minZoom, maxZoom } = latest.current;
+      const nextZoom = Math.max(minZoom, Math.min(maxZoom, targetZoom));
+      if (!container || nextZoom === currentZoom) return;
+
+      // Default to the middle of the visible area, e.g. for toolbar buttons
+      const rect = container.getBoundingClientRect();
+      const x = clientX ?? rect.left + rect.width / 2;
+      const y = clientY ?? rect.top + rect.height / 2;
+      const element = latest.current.getAnchorElement(x, y);
+
+      if (element) {
+        const elementRect = element.getBoundingClientRect();
+        anchorRef.current = {
+          element,
+          clientX: x,
+          clientY: y,
+          fx: (x - elementRect.left) / (elementRect.width || 1),
+          fy: (y - elementRect.top) / (elementRect.height || 1),
+        };
+      }
+
+      latest.current.onZoomChange(nextZoom);
+    },
+    [containerRef]
+  );
+
+  // Once the zoomed layout is committed, scroll the anchor back under the cursor
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const container = containerRef.current;
+    if (!anchor || !container) return;
+    anchorRef.current = null;
+
+    const rect = anchor.element.getBoundingClientRect();
+    container.scrollLeft += rect.left + anchor.fx * rect.width - anchor.clientX;
+    container.scrollTop += rect.top + anchor.fy * rect.height - anchor.clientY;
+  }, [zoom, containerRef]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    const pointers = new Map<number, PointerEvent>();
+    let panStart: {
+      x: number;
+      y: number;
+      scrollLeft: number;
+      scrollTop: number;
+    } | null = null;
+    let pinchStart: { distance: number; zoom: number } | null = null;
+    let didPan = false;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      // Trackpad pinches arrive as small ctrl+wheel deltas
+      const factor = Math.exp(-Math.max(-50, Math.min(50, e.deltaY)) * 0.01);
+      zoomTo(latest.current.zoom * factor, e.clientX, e.clientY);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === "mouse" && e.button !== 0) return;
+      pointers.set(e.pointerId, e);
+
+      if (pointers.size === 1) {
+        didPan = false;
+        panStart = {
+          x: e.clientX,
+          y: e.clientY,
+          scrollLeft: container.scrollLeft,
+          scrollTop: container.scrollTop,
+        };
+      } else if (pointers.size === 2) {
+        const [a, b] = Array.from(pointers.values());
+        panStart = null;
+        pinchStart = { distance: distance(a, b), zoom: latest.current.zoom };
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      pointers.set(e.pointerId, e);
+
+      if (pinchStart && pointers.size === 2) {
+        const [a, b] = Array.from(pointers.values());
+        zoomTo(
+          (pinchStart.zoom * distance(a, b)) / (pinchStart.distance || 1),
+          (a.clientX + b.clientX) / 2,
+          (a.clientY + b.clientY) / 2
+        );
+        return;
+      }
+
+      if (!panStart) return;
+      const dx = e.clientX - panStart.x;
+      const dy = e.clientY - panStart.y;
+
+      if (!didPan && Math.hypot(dx, dy) < PAN_THRESHOLD) return;
+      if (!didPan) {
+        didPan = true;
+        setIsPanning(true);
+        container.setPointerCapture(e.pointerId);
+      }
+
+      container.scrollLeft = panStart.scrollLeft - dx;
+      container.scrollTop = panStart.scrollTop - dy;
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      if (pointers.size < 2) {
+        pinchStart = null;
+      }
+      if (pointers.size === 0) {
+        panStart = null;
+        setIsPanning(false);
+      }
+    };
+
+    // A drag should not also count as a click on a grounding box
+    const handleClick = (e: MouseEvent) => {
+      if (didPan) {
+        e.stopPropagation();
+        e.preventDefault();
+        didPan = false;
+      }
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    container.addEventListener("pointerdown", handlePointerDown);
+    container.addEventListener("pointermove", handlePointerMove);
+    container.addEventListener("pointerup", handlePointerUp);
+    container.addEventListener("pointercancel", handlePointerUp);
+    container.addEventListener("click", handleClick, true);
+
+    return () => {
+      container.removeEventListener("wheel", handleWheel);
+      container.removeEventListener("pointerdown", handlePointerDown);
+      container.removeEventListener("pointermove", handlePointerMove);
+      container.removeEventListener("pointerup", handlePointerUp);
+      container.removeEventListener("pointercancel", handlePointerUp);
+      container.removeEventListener("click", handleClick, true);
+    };
+  }, [containerRef, enabled, zoomTo]);
+
+  return { isPanning, zoomTo };
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import {
+  getPdfPageSize,
+  loadPdfDocument,
+  PageSize,
+  PDFDocumentProxy,
+} from "@/lib/pdf";
+
+interface PdfDocumentState {
+  pdf: PDFDocumentProxy | null;
+  pageSizes: PageSize[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const emptyState: PdfDocumentState = {
+  pdf: null,
+  pageSizes: [],
+  isLoading: false,
+  error: null,
+};
+
+// Load a PDF from an (object) URL and keep it open while the URL is in use
+export function usePdfDocument(url: string | undefined, enabled: boolean) {
+  const [state, setState] = useState<PdfDocumentState>(emptyState);
+
+  useEffect(() => {
+    if (!url || !enabled) {
+      setState(emptyState);
+      return;
+    }
+
+    const loadingTask = loadPdfDocument(url);
+    let cancelled = false;
+    setState({ ...emptyState, isLoading: true });
+
+    const load = async () => {
+      try {
+        const pdf = await loadingTask.promise;
+
+        // Page sizes are needed up front to lay out pages before they render
+        const pageSizes: PageSize[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          const page = await pdf.getPage(pageNumber);
+          pageSizes.push(getPdfPageSize(page));
+        }
+
+        if (!cancelled) {
+          setState({ pdf, pageSizes, isLoading: false, error: null });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Error loading PDF:", error);
+        setState({
+          ...emptyState,
+          error:
+            error instanceof Error ? error.message : "Failed to load the PDF",
+        });
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [url, enabled]);
+
+  return state;
+}
@@ -0,0 +1,45 @@
+import { RefObject, useEffect } from "react";
+
+// Highlight every occurrence of `query` inside an element using the CSS Custom
+// Highlight API. Unlike wrapping matches in <mark>, this leaves the DOM that
+// React (and the markdown renderer) own untouched. Browsers without the API
+// simply don't show inline highlights.
+export function useTextHighlight(
+  containerRef: RefObject<HTMLElement>,
+  query: string,
+  highlightName: string,
+  // Re-run when the rendered content changes
+  contentKey: unknown
+) {
+  useEffect(() => {
+    const container = containerRef.current;
+    const needle = query.trim().toLowerCase();
+    if (typeof CSS === "undefined" || !("highlights" in CSS)) return;
+    if (!container || !needle) {
+      CSS.highlights.delete(highlightName);
+      return;
+    }
+
+    const ranges: Range[] = [];
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+
+    let node = walker.nextNode();
+    while (node) {
+      const text = (node.textContent || "").toLowerCase();
+      let start = text.indexOf(needle);
+      while (start !== -1) {
+        const range = new Range();
+        range.setStart(node, start);
+        range.setEnd(node, start + needle.length);
+        ranges.push(range);
+        start = text.indexOf(needle, start + needle.length);
+      }
+      node = walker.nextNode();
+    }
+
+    CSS.highlights.set(highlightName, new Highlight(...ranges));
+    return () => {
+      CSS.highlights.delete(highlightName);
+    };
+  }, [containerRef, query, highlightName, contentKey]);
+}
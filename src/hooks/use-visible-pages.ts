@@ -0,0 +1,49 @@
+import { MutableRefObject, RefObject, useEffect, useState } from "react";
+
+// Track which pages of a scrolling stack are in (or near) the viewport so
+// only those get rendered. Pages are identified by their 0-based index.
+export function useVisiblePages(
+  containerRef: RefObject<HTMLElement>,
+  pageRefs: MutableRefObject<(HTMLElement | null)[]>,
+  pageCount: number,
+  enabled: boolean
+) {
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) {
+      setVisiblePages(new Set());
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        setVisiblePages((prev) => {
+          const next = new Set(prev);
+          entries.forEach((entry) => {
+            const pageIndex = Number(
+              (entry.target as HTMLElement).dataset.pageIndex
+            );
+            if (entry.isIntersecting) {
+              next.add(pageIndex);
+            } else {
+              next.delete(pageIndex);
+            }
+          });
+          return next;
+        });
+      },
+      // Start rendering a screen ahead so pages are ready when scrolled to
+      { root: container, rootMargin: "100% 0px" }
+    );
+
+    pageRefs.current
+      .slice(0, pageCount)
+      .forEach((element) => element && observer.observe(element));
+
+    return () => observer.disconnect();
+  }, [containerRef, pageRefs, pageCount, enabled]);
+
+  return visiblePages;
+}
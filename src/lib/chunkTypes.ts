@@ -0,0 +1,118 @@
+import { DocumentChunk } from "@/services/documentService";
+
+export type ChunkType = DocumentChunk["chunk_type"];
+
+export const CHUNK_TYPES: ChunkType[] = [
+  "title",
+  "page_header",
+  "page_footer",
+  "page_number",
+  "key_value",
+  "form",
+  "table",
+  "figure",
+  "text",
+];
+
+// Headers, footers and page numbers surrounding the main content
+export const MARGINALIA_TYPES: ChunkType[] = [
+  "page_header",
+  "page_footer",
+  "page_number",
+];
+
+interface ChunkTypeStyle {
+  label: string;
+  swatch: string; // solid background, used for legend swatches and box labels
+  border: string; // resting border of a grounding box
+  hover: string; // border and fill of a hovered grounding box
+}
+
+// Class names are spelled out in full so Tailwind picks them up
+export const CHUNK_TYPE_STYLES: Record<ChunkType, ChunkTypeStyle> = {
+  title: {
+    label: "Title",
+    swatch: "bg-violet-500",
+    border: "border-violet-400/70",
+    hover: "border-violet-500 bg-violet-500/20",
+  },
+  page_header: {
+    label: "Page header",
+    swatch: "bg-slate-500",
+    border: "border-slate-400/70",
+    hover: "border-slate-500 bg-slate-500/20",
+  },
+  page_footer: {
+    label: "Page footer",
+    swatch: "bg-stone-500",
+    border: "border-stone-400/70",
+    hover: "border-stone-500 bg-stone-500/20",
+  },
+  page_number: {
+    label: "Page number",
+    swatch: "bg-zinc-500",
+    border: "border-zinc-400/70",
+    hover: "border-zinc-500 bg-zinc-500/20",
+  },
+  key_value: {
+    label: "Key-value",
+    swatch: "bg-amber-500",
+    border: "border-amber-400/70",
+    hover: "border-amber-500 bg-amber-500/20",
+  },
+  form: {
+    label: "Form",
+    swatch: "bg-orange-500",
+    border: "border-orange-400/70",
+    hover: "border-orange-500 bg-orange-500/20",
+  },
+  table: {
+    label: "Table",
+    swatch: "bg-blue-500",
+    border: "border-blue-400/70",
+    hover: "border-blue-500 bg-blue-500/20",
+  },
+  figure: {
+    label: "Figure",
+    swatch: "bg-pink-500",
+    border: "border-pink-400/70",
+    hover: "border-pink-500 bg-pink-500/20",
+  },
+  text: {
+    label: "Text",
+    swatch: "bg-green-500",
+    border: "border-green-400/60",
+    hover: "border-green-500 bg-green-500/20",
+  },
+};
+
+// Fall back to the text style for chunk types the API adds in the future
+export const getChunkTypeStyle = (chunkType: string): ChunkTypeStyle => {
+  return CHUNK_TYPE_STYLES[chunkType as ChunkType] || CHUNK_TYPE_STYLES.text;
+};
+
+// Figures and tables are numbered separately, in reading order
+const NUMBERED_TYPES: Partial<Record<ChunkType, string>> = {
+  figure: "Figure",
+  table: "Table",
+};
+
+// Get the figure or table number of a chunk, e.g. "Table 2"
+export const getFigureNumber = (
+  chunks: DocumentChunk[],
+  chunkId: string,
+  chunkType: string
+): string => {
+  const label = NUMBERED_TYPES[chunkType.toLowerCase() as ChunkType];
+  if (!label) {
+    return "";
+  }
+
+  // Find all chunks of the same type and determine this one's position
+  const sameTypeChunks = chunks.filter(
+    (c) => c.chunk_type.toLowerCase() === chunkType.toLowerCase()
+  );
+  const index = sameTypeChunks.findIndex((c) => c.chunk_id === chunkId);
+
+  return index >= 0 ? `${label} ${index + 1}` : "";
+};
@@ -0,0 +1,78 @@
+import { FileItem } from "@/lib/files";
+
+// Example documents bundled with the app. Their extraction is read from a
+// fixture in public/ instead of calling the API.
+export interface DemoDocument {
+  id: string;
+  name: string;
+  type: string;
+  imageUrl: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+export const DEMO_DOCUMENTS: DemoDocument[] = [
+  {
+    id: "invoice",
+    name: "Invoice",
+    type: "Tables, Multi-column",
+    imageUrl: "/invoice-sample.svg",
+    mimeType: "image/svg+xml",
+    dataUrl: "/demo_invoice.json",
+  },
+  {
+    id: "lab-report",
+    name: "Lab Report",
+    type: "Medical, Images",
+    imageUrl: "/lab-report-sample.svg",
+    mimeType: "image/svg+xml",
+    dataUrl: "/demo_lab_report.json",
+  },
+  {
+    id: "loan-form",
+    name: "Loan Form",
+    type: "Forms, Checkboxes",
+    imageUrl: "/loan-form-sample.jpg",
+    mimeType: "image/jpeg",
+    dataUrl: "/demo_form.json",
+  },
+];
+
+// Listed with the demos, but without bundled data yet
+const UNAVAILABLE_EXAMPLES: FileItem[] = [
+  {
+    id: "performance-charts",
+    name: "Performance Charts",
+    type: "Charts, Reading Order",
+  },
+];
+
+// Example files offered on the upload page and in the sidebar
+export const EXAMPLE_FILES: FileItem[] = [
+  ...DEMO_DOCUMENTS.map(({ id, name, type }) => ({ id, name, type })),
+  ...UNAVAILABLE_EXAMPLES,
+];
+
+export const getDemoDocument = (name: string) =>
+  DEMO_DOCUMENTS.find((demo) => demo.name === name) || null;
+
+// Location state for opening a demo on the document page
+export const getDemoNavigationState = (demo: DemoDocument) => {
+  const fileItem: FileItem = {
+    id: demo.id,
+    name: demo.name,
+    type: demo.type,
+    thumbnail: demo.imageUrl,
+  };
+  // Not a real file, but it provides the interface the page expects
+  const file = new File([""], demo.imageUrl.split("/").pop() || demo.id, {
+    type: demo.mimeType,
+  });
+  return {
+    file,
+    fileItem,
+    fileObjectUrl: demo.imageUrl,
+    isDemo: true,
+    demoType: demo.name,
+  };
+};
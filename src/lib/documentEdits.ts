@@ -0,0 +1,295 @@
+import { DocumentChunk, DocumentResponse } from "@/services/documentService";
+import { splitGroundings } from "@/lib/geometry";
+import { getInsertionIndex } from "@/lib/readingOrder";
+import { FormField, setFieldValue } from "@/lib/formFields";
+import {
+  parseTable,
+  replaceTable,
+  stitchTableGrids,
+  TableGrid,
+} from "@/lib/tables";
+
+// A change to the extracted document, applied to the current state
+export type DocumentEdit = (documentData: DocumentResponse) => DocumentResponse;
+
+// The combined markdown is the text of every chunk in reading order
+export const rebuildMarkdown = (chunks: DocumentChunk[]): string =>
+  chunks
+    .map((chunk) => chunk.text.trim())
+    .filter(Boolean)
+    .join("\n\n");
+
+// Replace the chunks and keep the combined markdown in sync with them
+export const withChunks = (
+  documentData: DocumentResponse,
+  chunks: DocumentChunk[]
+): DocumentResponse => ({
+  ...documentData,
+  chunks,
+  markdown: rebuildMarkdown(chunks),
+});
+
+// Move a chunk in front of another one, or to the end without a target
+export const moveChunk =
+  (chunkId: string, beforeChunkId: string | null): DocumentEdit =>
+  (documentData) => {
+    const chunk = documentData.chunks.find((c) => c.chunk_id === chunkId);
+    if (!chunk || chunkId === beforeChunkId) return documentData;
+
+    const remaining = documentData.chunks.filter((c) => c.chunk_id !== chunkId);
+    const targetIndex = remaining.findIndex(
+      (c) => c.chunk_id === beforeChunkId
+    );
+    const insertAt = targetIndex >= 0 ? targetIndex : remaining.length;
+
+    return withChunks(documentData, [
+      ...remaining.slice(0, insertAt),
+      chunk,
+      ...remaining.slice(insertAt),
+    ]);
+  };
+
+// Put the given chunks in the given order, reusing the positions they already
+// occupy so that the chunks in between stay where they are
+export const sequenceChunks =
+  (chunkIds: string[]): DocumentEdit =>
+  (documentData) => {
+    const positions = documentData.chunks
+      .map((chunk, index) => (chunkIds.includes(chunk.chunk_id) ? index : -1))
+      .filter((index) => index >= 0);
+    if (positions.length < 2) return documentData;
+
+    const chunksById = new Map(
+      documentData.chunks.map((chunk) => [chunk.chunk_id, chunk])
+    );
+    const chunks = [...documentData.chunks];
+    chunkIds
+      .filter((chunkId) => chunksById.has(chunkId))
+      .forEach((chunkId, index) => {
+        chunks[positions[index]] = chunksById.get(chunkId) as DocumentChunk;
+      });
+
+    return withChunks(documentData, chunks);
+  };
+
+export const updateChunkText =
+  (chunkId: string, text: string): DocumentEdit =>
+  (documentData) =>
+    withChunks(
+      documentData,
+      documentData.chunks.map((chunk) =>
+        chunk.chunk_id === chunkId ? { ...chunk, text } : chunk
+      )
+    );
+
+// Change one form field in the text of the chunk it was read from
+export const updateFormField =
+  (field: FormField, value: string | boolean): DocumentEdit =>
+  (documentData) => {
+    const chunk = documentData.chunks.find((c) => c.chunk_id === field.chunkId);
+    if (!chunk) return documentData;
+    const text = setFieldValue(chunk.text, field, value);
+    return text === chunk.text
+      ? documentData
+      : updateChunkText(field.chunkId, text)(documentData);
+  };
+
+export const updateChunkType =
+  (chunkId: string, chunkType: DocumentChunk["chunk_type"]): DocumentEdit =>
+  (documentData) =>
+    withChunks(
+      documentData,
+      documentData.chunks.map((chunk) =>
+        chunk.chunk_id === chunkId ? { ...chunk, chunk_type: chunkType } : chunk
+      )
+    );
+
+export interface ChunkCorrection {
+  original: string;
+  corrected: string;
+}
+
+// Chunks whose text differs from what was extracted, keyed by chunk_id
+export const getChunkCorrections = (
+  extractedChunks: DocumentChunk[],
+  chunks: DocumentChunk[]
+): Record<string, ChunkCorrection> => {
+  const extractedTexts = new Map(
+    extractedChunks.map((chunk) => [chunk.chunk_id, chunk.text])
+  );
+
+  return chunks.reduce<Record<string, ChunkCorrection>>(
+    (corrections, chunk) => {
+      const original = extractedTexts.get(chunk.chunk_id);
+      if (original !== undefined && original !== chunk.text) {
+        corrections[chunk.chunk_id] = { original, corrected: chunk.text };
+      }
+      return corrections;
+    },
+    {}
+  );
+};
+
+// Ids for chunks created by editing, in the same format as extracted ones
+export const createChunkId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Combine chunks into one at the position of the first of them, keeping the
+// text in reading order and every region they were grounded on
+export const mergeChunks =
+  (chunkIds: string[], mergedChunkId: string): DocumentEdit =>
+  (documentData) => {
+    const merging = documentData.chunks.filter((chunk) =>
+      chunkIds.includes(chunk.chunk_id)
+    );
+    if (merging.length < 2) return documentData;
+
+    const groundings = merging.flatMap((chunk) => chunk.grounding || []);
+    const merged: DocumentChunk = {
+      text: merging.map((chunk) => chunk.text.trim()).join("\n\n"),
+      chunk_type: merging[0].chunk_type,
+      chunk_id: mergedChunkId,
+      grounding: groundings.length > 0 ? groundings : null,
+    };
+
+    return withChunks(
+      documentData,
+      documentData.chunks.flatMap((chunk) => {
+        if (chunk === merging[0]) return [merged];
+        return merging.includes(chunk) ? [] : [chunk];
+      })
+    );
+  };
+
+// Join the parts of a table split across pages into one table chunk. Each part
+// keeps its region, so the stitched table still points at every page.
+export const stitchTables =
+  (chunkIds: string[], stitchedChunkId: string): DocumentEdit =>
+  (documentData) => {
+    const parts = documentData.chunks.filter((chunk) =>
+      chunkIds.includes(chunk.chunk_id)
+    );
+    const grids = parts
+      .map((chunk) => parseTable(chunk.text))
+      .filter((grid): grid is TableGrid => grid !== null);
+    if (parts.length < 2 || grids.length < parts.length) return documentData;
+
+    const groundings = parts.flatMap((chunk) => chunk.grounding || []);
+    const stitched: DocumentChunk = {
+      text: replaceTable(parts[0].text, stitchTableGrids(grids)),
+      chunk_type: "table",
+      chunk_id: stitchedChunkId,
+      grounding: groundings.length > 0 ? groundings : null,
+    };
+
+    return withChunks(
+      documentData,
+      documentData.chunks.flatMap((chunk) => {
+        if (chunk === parts[0]) return [stitched];
+        return parts.includes(chunk) ? [] : [chunk];
+      })
+    );
+  };
+
+// Cut a chunk in two at an offset in `text`, which may include unsaved
+// corrections. The regions are divided in proportion to the text on each side.
+export const splitChunk =
+  (
+    chunkId: string,
+    text: string,
+    offset: number,
+    [firstChunkId, secondChunkId]: [string, string]
+  ): DocumentEdit =>
+  (documentData) => {
+    const chunk = documentData.chunks.find((c) => c.chunk_id === chunkId);
+    const firstText = text.slice(0, offset).trim();
+    const secondText = text.slice(offset).trim();
+    if (!chunk || !firstText || !secondText) return documentData;
+
+    const [firstGrounding, secondGrounding] = chunk.grounding
+      ? splitGroundings(chunk.grounding, offset / text.length)
+      : [null, null];
+
+    return withChunks(
+      documentData,
+      documentData.chunks.flatMap((c) =>
+        c === chunk
+          ? [
+              {
+                ...chunk,
+                text: firstText,
+                chunk_id: firstChunkId,
+                grounding: firstGrounding,
+              },
+              {
+                ...chunk,
+                text: secondText,
+                chunk_id: secondChunkId,
+                grounding: secondGrounding,
+              },
+            ]
+          : [c]
+      )
+    );
+  };
+
+// Add a chunk that the extraction missed where it belongs in reading order
+export const addChunk =
+  (chunk: DocumentChunk): DocumentEdit =>
+  (documentData) => {
+    const grounding = chunk.grounding?.[0];
+    const index = grounding
+      ? getInsertionIndex(documentData.chunks, grounding.page, grounding.box)
+      : documentData.chunks.length;
+
+    return withChunks(documentData, [
+      ...documentData.chunks.slice(0, index),
+      chunk,
+      ...documentData.chunks.slice(index),
+    ]);
+  };
+
+export const deleteChunk =
+  (chunkId: string): DocumentEdit =>
+  (documentData) =>
+    withChunks(
+      documentData,
+      documentData.chunks.filter((chunk) => chunk.chunk_id !== chunkId)
+    );
+
+// Put back the text, type and regions a chunk was extracted with
+export const revertChunk =
+  (extractedChunk: DocumentChunk): DocumentEdit =>
+  (documentData) =>
+    withChunks(
+      documentData,
+      documentData.chunks.map((chunk) =>
+        chunk.chunk_id === extractedChunk.chunk_id ? extractedChunk : chunk
+      )
+    );
+
+// Extracted chunks that have since been changed in any way
+export const getModifiedChunkIds = (
+  extractedChunks: DocumentChunk[],
+  chunks: DocumentChunk[]
+): string[] => {
+  const extractedById = new Map(
+    extractedChunks.map((chunk) => [chunk.chunk_id, chunk])
+  );
+
+  return chunks
+    .filter((chunk) => {
+      const extracted = extractedById.get(chunk.chunk_id);
+      return (
+        extracted !== undefined &&
+        extracted !== chunk &&
+        (extracted.text !== chunk.text ||
+          extracted.chunk_type !== chunk.chunk_type ||
+          JSON.stringify(extracted.grounding) !==
+            JSON.stringify(chunk.grounding))
+      );
+    })
+    .map((chunk) => chunk.chunk_id);
+};
@@ -0,0 +1,15 @@
+// Save text as a file through a temporary link
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type = "text/plain"
+) => {
+  const element = document.createElement("a");
+  const file = new Blob([content], { type });
+  element.href = URL.createObjectURL(file);
+  element.download = filename;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  URL.revokeObjectURL(element.href);
+};
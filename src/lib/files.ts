@@ -0,0 +1,7 @@
+// A document listed in the sidebar, uploaded or one of the examples
+export interface FileItem {
+  id: string;
+  name: string;
+  type: string;
+  thumbnail?: string;
+}
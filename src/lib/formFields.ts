@@ -0,0 +1,279 @@
+import { DocumentChunk, Grounding } from "@/services/documentService";
+import { normalizeValue, toExportValue } from "@/lib/normalize";
+
+export type FieldKind = "text" | "checkbox";
+
+export interface FormField {
+  // Stable while the chunk text keeps its lines
+  id: string;
+  chunkId: string;
+  kind: FieldKind;
+  label: string;
+  // Empty for checkboxes; blanks such as "_______" are kept as extracted
+  value: string;
+  checked: boolean | null;
+  // Nearest heading above the field
+  section: string | null;
+  grounding: Grounding[] | null;
+  // Line of the chunk text the field was read from, to write edits back
+  line: number;
+}
+
+export const FIELD_CHUNK_TYPES = ["form", "key_value"];
+
+const HEADING = /^\s*#{1,6}\s+(.*?)\s*#*\s*$/;
+// - **Label**: value, or **Label:** value
+const BOLD_PAIR = /^(\s*(?:[-*+]\s+)?)\*\*(.+?)(?::\*\*|\*\*:)(\s*)(.*)$/;
+// - [x] Label
+const CHECKBOX_ITEM = /^(\s*[-*+]\s+)\[([ xX])\](\s*)(.*)$/;
+// Label: value, without markdown, as key_value chunks often come back
+const PLAIN_PAIR = /^(\s*(?:[-*+]\s+)?)([^:|<>*#[\]]{1,60}?):(\s+)(.+)$/;
+const CHECKBOX_VALUE = /^\[([ xX])\]$/;
+
+const isChecked = (mark: string) => mark.toLowerCase() === "x";
+
+const parseLine = (
+  line: string,
+  allowPlainPairs: boolean
+): Pick<FormField, "kind" | "label" | "value" | "checked"> | null => {
+  const checkbox = CHECKBOX_ITEM.exec(line);
+  if (checkbox) {
+    return {
+      kind: "checkbox",
+      label: checkbox[4].trim(),
+      value: "",
+      checked: isChecked(checkbox[2]),
+    };
+  }
+
+  const pair =
+    BOLD_PAIR.exec(line) || (allowPlainPairs ? PLAIN_PAIR.exec(line) : null);
+  if (!pair) return null;
+
+  const label = pair[2].trim();
+  const value = pair[4].trim();
+  const checkboxValue = CHECKBOX_VALUE.exec(value);
+  if (checkboxValue) {
+    return {
+      kind: "checkbox",
+      label,
+      value: "",
+      checked: isChecked(checkboxValue[1]),
+    };
+  }
+  return { kind: "text", label, value, checked: null };
+};
+
+// The labelled values and checkboxes in a form or key-value chunk, in order.
+// Tables inside the chunk are left to the table tools.
+export const parseFormFields = (chunk: DocumentChunk): FormField[] => {
+  const fields: FormField[] = [];
+  let section: string | null = null;
+
+  chunk.text.split("\n").forEach((line, index) => {
+    const heading = HEADING.exec(line);
+    if (heading) {
+      section = heading[1].replace(/\*\*/g, "").trim() || section;
+      return;
+    }
+    if (/^\s*[<|]/.test(line)) return;
+
+    const field = parseLine(line, chunk.chunk_type === "key_value");
+    if (field && field.label) {
+      fields.push({
+        ...field,
+        id: `${chunk.chunk_id}:${index}`,
+        chunkId: chunk.chunk_id,
+        section,
+        grounding: chunk.grounding,
+        line: index,
+      });
+    }
+  });
+
+  return fields;
+};
+
+export const getFormFields = (chunks: DocumentChunk[]): FormField[] =>
+  chunks
+    .filter((chunk) => FIELD_CHUNK_TYPES.includes(chunk.chunk_type))
+    .flatMap(parseFormFields);
+
+export type ChoiceIssue = "none_selected" | "multiple_selected";
+
+// Checkbox options listed together, answering one question
+export interface ChoiceGroup {
+  id: string;
+  chunkId: string;
+  // Snake-case name for export, e.g. "loan_purpose"
+  key: string;
+  // The question above the options, or else the section heading
+  label: string;
+  section: string | null;
+  options: FormField[];
+  // Whether more than one option may be ticked ("check all that apply")
+  multiSelect: boolean;
+  selected: string[];
+  issue: ChoiceIssue | null;
+  grounding: Grounding[] | null;
+}
+
+const MULTI_SELECT_HINT = /all that apply|check all|select all|one or more/i;
+
+const toKey = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .split("_")
+    .slice(0, 6)
+    .join("_") || "choice";
+
+// Options are the "- [x] Label" items of a chunk that follow one another with
+// nothing but blank lines between them. A lone checkbox is a yes/no field
+// rather than a choice.
+export const parseChoiceGroups = (chunk: DocumentChunk): ChoiceGroup[] => {
+  const lines = chunk.text.split("\n");
+  const options = parseFormFields(chunk).filter(
+    (field) =>
+      field.kind === "checkbox" && CHECKBOX_ITEM.test(lines[field.line])
+  );
+
+  const runs: FormField[][] = [];
+  options.forEach((option, index) => {
+    const previous = options[index - 1];
+    const isAdjacent =
+      previous &&
+      previous.section === option.section &&
+      lines.slice(previous.line + 1, option.line).every((line) => !line.trim());
+    if (isAdjacent) {
+      runs[runs.length - 1].push(option);
+    } else {
+      runs.push([option]);
+    }
+  });
+
+  const seenKeys: Record<string, number> = {};
+  return runs
+    .filter((run) => run.length > 1)
+    .map((run) => {
+      // A question line directly above the options names the group
+      const above = lines
+        .slice(0, run[0].line)
+        .reverse()
+        .find((line) => line.trim());
+      const question =
+        above && !HEADING.test(above) && !parseLine(above, false)
+          ? above.replace(/^\s*[-*+]\s+/, "").trim()
+          : null;
+      const label = question || run[0].section || "Options";
+
+      const baseKey = toKey(run[0].section || label);
+      seenKeys[baseKey] = (seenKeys[baseKey] || 0) + 1;
+      const key =
+        seenKeys[baseKey] > 1 ? `${baseKey}_${seenKeys[baseKey]}` : baseKey;
+
+      const multiSelect = MULTI_SELECT_HINT.test(label);
+      const selected = run
+        .filter((option) => option.checked)
+        .map((option) => option.label);
+
+      return {
+        id: run[0].id,
+        chunkId: chunk.chunk_id,
+        key,
+        label,
+        section: run[0].section,
+        options: run,
+        multiSelect,
+        selected,
+        issue:
+          selected.length === 0
+            ? "none_selected"
+            : selected.length > 1 && !multiSelect
+            ? "multiple_selected"
+            : null,
+        grounding: chunk.grounding,
+      };
+    });
+};
+
+export const getChoiceGroups = (chunks: DocumentChunk[]): ChoiceGroup[] =>
+  chunks
+    .filter((chunk) => FIELD_CHUNK_TYPES.includes(chunk.chunk_type))
+    .flatMap(parseChoiceGroups);
+
+export const describeChoiceIssue = (group: ChoiceGroup): string | null => {
+  if (group.issue === "none_selected") return "No option is ticked";
+  if (group.issue === "multiple_selected") {
+    return `${group.selected.length} options are ticked, but only one is expected`;
+  }
+  return null;
+};
+
+// The answer to a choice: the ticked option, or all of them for
+// multi-select groups
+export const getChoiceValue = (group: ChoiceGroup): string | string[] | null =>
+  group.multiSelect || group.selected.length > 1
+    ? group.selected
+    : group.selected[0] ?? null;
+
+// Write a new value or checkbox state into the line the field came from,
+// keeping the rest of the line's markdown as it was
+export const setFieldValue = (
+  text: string,
+  field: FormField,
+  value: string | boolean
+): string => {
+  const lines = text.split("\n");
+  const line = lines[field.line];
+  if (line === undefined) return text;
+
+  let updated = line;
+  if (typeof value === "boolean") {
+    const mark = value ? "[x]" : "[ ]";
+    updated = CHECKBOX_ITEM.test(line)
+      ? line.replace(CHECKBOX_ITEM, `$1${mark}$3$4`)
+      : line.replace(/\[[ xX]\](\s*)$/, `${mark}$1`);
+  } else {
+    const pair = BOLD_PAIR.exec(line) || PLAIN_PAIR.exec(line);
+    if (pair) {
+      const prefix = line.slice(
+        0,
+        line.length - pair[4].length - pair[3].length
+      );
+      updated = `${prefix}${pair[3] || " "}${value}`;
+    }
+  }
+
+  lines[field.line] = updated;
+  return lines.join("\n");
+};
+
+// Plain JSON for export: the resolved choices by name, any choices that need
+// a look, and every field with its typed value and the page it was found on
+export const formFieldsToJson = (
+  fields: FormField[],
+  choiceGroups: ChoiceGroup[] = []
+) => ({
+  choices: Object.fromEntries(
+    choiceGroups.map((group) => [group.key, getChoiceValue(group)])
+  ),
+  choice_issues: choiceGroups
+    .filter((group) => group.issue)
+    .map((group) => ({
+      choice: group.key,
+      issue: group.issue,
+      message: describeChoiceIssue(group),
+    })),
+  fields: fields.map((field) => ({
+    section: field.section,
+    label: field.label,
+    type: field.kind,
+    ...(field.kind === "checkbox"
+      ? { value: field.checked }
+      : toExportValue(normalizeValue(field.value, field.label))),
+    page: field.grounding?.[0] ? field.grounding[0].page + 1 : null,
+    chunk_id: field.chunkId,
+  })),
+});
@@ -0,0 +1,100 @@
+import {
+  BoxCoordinates,
+  DocumentChunk,
+  Grounding,
+} from "@/services/documentService";
+
+// Clockwise page rotation in degrees
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const normalizeRotation = (degrees: number): Rotation =>
+  ((((Math.round(degrees / 90) * 90) % 360) + 360) % 360) as Rotation;
+
+// Clamp box values to valid range (0-1)
+export const clampBox = (box: BoxCoordinates): BoxCoordinates => ({
+  l: Math.max(0, Math.min(1, box.l)),
+  t: Math.max(0, Math.min(1, box.t)),
+  r: Math.max(0, Math.min(1, box.r)),
+  b: Math.max(0, Math.min(1, box.b)),
+});
+
+// Map a normalized box on the unrotated page onto the page rotated clockwise
+export const rotateBox = (
+  box: BoxCoordinates,
+  rotation: Rotation
+): BoxCoordinates => {
+  switch (rotation) {
+    case 90:
+      return { l: 1 - box.b, t: box.l, r: 1 - box.t, b: box.r };
+    case 180:
+      return { l: 1 - box.r, t: 1 - box.b, r: 1 - box.l, b: 1 - box.t };
+    case 270:
+      return { l: box.t, t: 1 - box.r, r: box.b, b: 1 - box.l };
+    default:
+      return box;
+  }
+};
+
+// Inverse of rotateBox, for boxes drawn on a rotated page
+export const unrotateBox = (
+  box: BoxCoordinates,
+  rotation: Rotation
+): BoxCoordinates => rotateBox(box, normalizeRotation(360 - rotation));
+
+export const isSideways = (rotation: Rotation) =>
+  rotation === 90 || rotation === 270;
+
+export const boxesIntersect = (a: BoxCoordinates, b: BoxCoordinates) =>
+  a.l < b.r && b.l < a.r && a.t < b.b && b.t < a.b;
+
+// Chunks with a grounding on `page` (0-indexed) that overlaps `box`
+export const getChunksInRegion = (
+  chunks: DocumentChunk[],
+  page: number,
+  box: BoxCoordinates
+): DocumentChunk[] =>
+  chunks.filter((chunk) =>
+    (chunk.grounding || []).some(
+      (grounding) =>
+        grounding.page === page && boxesIntersect(grounding.box, box)
+    )
+  );
+
+// Divide a chunk's regions at a fraction of their combined height, cutting the
+// region that contains that point in two
+export const splitGroundings = (
+  groundings: Grounding[],
+  fraction: number
+): [Grounding[], Grounding[]] => {
+  const heights = groundings.map((g) => Math.max(0, g.box.b - g.box.t));
+  const totalHeight = heights.reduce((sum, height) => sum + height, 0);
+  if (totalHeight === 0) return [groundings, groundings];
+
+  const cut = Math.max(0, Math.min(1, fraction)) * totalHeight;
+  const before: Grounding[] = [];
+  const after: Grounding[] = [];
+  let offset = 0;
+
+  groundings.forEach((grounding, index) => {
+    const height = heights[index];
+    if (offset + height <= cut) {
+      before.push(grounding);
+    } else if (offset >= cut) {
+      after.push(grounding);
+    } else {
+      const y = grounding.box.t + (cut - offset);
+      before.push({ ...grounding, box: { ...grounding.box, b: y } });
+      after.push({ ...grounding, box: { ...grounding.box, t: y } });
+    }
+    offset += height;
+  });
+
+  return [before, after];
+};
+
+// A rectangle drawn on a page, normalized to the unrotated page like groundings
+export interface RegionSelection {
+  page: number;
+  box: BoxCoordinates;
+  chunkIds: string[];
+}
@@ -0,0 +1,421 @@
+import {
+  DocumentChunk,
+  DocumentResponse,
+  Grounding,
+} from "@/services/documentService";
+import {
+  FIELD_CHUNK_TYPES,
+  FormField,
+  getFormFields,
+  parseFormFields,
+} from "@/lib/formFields";
+import { NormalizedValue, normalizeValue, ValueKind } from "@/lib/normalize";
+import {
+  parseTable,
+  tableToCsv,
+  tableToJsonRows,
+  TableGrid,
+} from "@/lib/tables";
+
+// A value read from the invoice, with the chunk it came from
+export interface InvoiceValue {
+  raw: string;
+  normalized: NormalizedValue;
+  chunkId: string;
+  grounding: Grounding[] | null;
+}
+
+export interface InvoiceLineItem {
+  chunkId: string;
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  amount: number | null;
+  // Quantity times unit price differing from the amount
+  issue: string | null;
+}
+
+export interface InvoiceCheck {
+  label: string;
+  expected: number;
+  actual: number;
+  passed: boolean;
+}
+
+export type InvoiceHeaderKey =
+  | "vendor"
+  | "invoiceNumber"
+  | "invoiceDate"
+  | "dueDate";
+
+export type InvoiceTotalKey = "subtotal" | "tax" | "total";
+
+export interface Invoice {
+  header: Record<InvoiceHeaderKey, InvoiceValue | null>;
+  lineItems: InvoiceLineItem[];
+  totals: Record<InvoiceTotalKey, InvoiceValue | null>;
+  currency: string | null;
+  checks: InvoiceCheck[];
+  isReconciled: boolean;
+}
+
+export const INVOICE_HEADER_LABELS: Record<InvoiceHeaderKey, string> = {
+  vendor: "Vendor",
+  invoiceNumber: "Invoice number",
+  invoiceDate: "Invoice date",
+  dueDate: "Due date",
+};
+
+export const INVOICE_TOTAL_LABELS: Record<InvoiceTotalKey, string> = {
+  subtotal: "Subtotal",
+  tax: "Tax",
+  total: "Total",
+};
+
+// Amounts on an invoice are rounded to the cent
+const TOLERANCE = 0.01;
+
+// How each value tends to be labelled, matched against the whole label
+const LABEL_PATTERNS: Record<InvoiceHeaderKey | InvoiceTotalKey, RegExp> = {
+  vendor: /^(vendor|seller|supplier|from|sold by|remit to)$/,
+  invoiceNumber: /^(invoice|invoice (number|no|id)|bill (number|no))$/,
+  invoiceDate: /^(invoice date|date|date of issue|issue date|billing date)$/,
+  dueDate: /^(due date|date due|payment due|due)$/,
+  subtotal: /^(subtotal|sub total|net amount|total before tax)$/,
+  // A rate may follow, e.g. "VAT 20%"
+  tax: /^(sales tax|tax|vat|gst|hst)( \(?[\d.]+ ?%\)?)?$/,
+  total:
+    /^(total|total due|total amount( due)?|invoice total|amount due|balance due|grand total)$/,
+};
+
+type ColumnRole = "description" | "quantity" | "unitPrice" | "amount";
+
+// Checked in order, so "Unit Price" isn't taken for an amount
+const COLUMN_PATTERNS: [ColumnRole, RegExp][] = [
+  ["quantity", /\b(qty|quantity|hours|hrs|units)\b/],
+  ["unitPrice", /\b(unit|price|rate|each)\b/],
+  ["amount", /\b(amount|total|extended|line)\b/],
+  [
+    "description",
+    /\b(desc|description|item|product|service|particulars|details)\b/,
+  ],
+];
+
+const NUMERIC_KINDS: ValueKind[] = ["number", "currency"];
+
+export const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const normalizeLabel = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(/[*_:.#]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toNumber = (text: string, label: string): number | null => {
+  const normalized = normalizeValue(text, label);
+  return NUMERIC_KINDS.includes(normalized.kind)
+    ? (normalized.value as number)
+    : null;
+};
+
+// Normalized by the label it was printed with, so an all-digit invoice
+// number stays as written
+const toInvoiceValue = (
+  raw: string,
+  label: string,
+  chunk: DocumentChunk
+): InvoiceValue => ({
+  raw,
+  normalized: normalizeValue(raw, label),
+  chunkId: chunk.chunk_id,
+  grounding: chunk.grounding,
+});
+
+// Labelled values of forms first, then "Label: value" anywhere in the text
+const getLabelledFields = (chunks: DocumentChunk[]): FormField[] =>
+  getFormFields(chunks)
+    .concat(
+      chunks
+        .filter(
+          (chunk) =>
+            !FIELD_CHUNK_TYPES.includes(chunk.chunk_type) &&
+            chunk.chunk_type !== "table"
+        )
+        .flatMap((chunk) =>
+          parseFormFields({ ...chunk, chunk_type: "key_value" })
+        )
+    )
+    .filter((field) => field.kind === "text" && field.value.trim());
+
+const getColumnRoles = (headers: string[]) => {
+  const roles: Partial<Record<ColumnRole, string>> = {};
+  headers.forEach((header) => {
+    const label = normalizeLabel(header);
+    const match = COLUMN_PATTERNS.find(
+      ([role, pattern]) => !roles[role] && pattern.test(label)
+    );
+    if (match) roles[match[0]] = header;
+  });
+  return roles;
+};
+
+// Rows of a line-item table that carry a total instead of an item, e.g.
+// "Subtotal | | | $1,382.49"
+const getTotalsRow = (row: Record<string, string>) => {
+  const cells = Object.values(row).filter((cell) => cell && cell.trim());
+  if (cells.length < 2) return null;
+  const label = normalizeLabel(cells[0]);
+  const key = (Object.keys(INVOICE_TOTAL_LABELS) as InvoiceTotalKey[]).find(
+    (total) => LABEL_PATTERNS[total].test(label)
+  );
+  return key
+    ? { key, label: cells[0].trim(), raw: cells[cells.length - 1].trim() }
+    : null;
+};
+
+const readLineItems = (chunk: DocumentChunk, grid: TableGrid) => {
+  const rows = tableToJsonRows(grid);
+  const roles = getColumnRoles(Object.keys(rows[0] || {}));
+  const isLineItemTable =
+    !!roles.description &&
+    (!!roles.amount || (!!roles.quantity && !!roles.unitPrice));
+  if (!isLineItemTable) return null;
+
+  const lineItems: InvoiceLineItem[] = [];
+  const totals: Partial<Record<InvoiceTotalKey, InvoiceValue>> = {};
+
+  rows.forEach((row) => {
+    const totalsRow = getTotalsRow(row);
+    if (totalsRow) {
+      totals[totalsRow.key] = toInvoiceValue(
+        totalsRow.raw,
+        totalsRow.label,
+        chunk
+      );
+      return;
+    }
+    const cell = (role: ColumnRole) => {
+      const header = roles[role];
+      return header ? (row[header] || "").trim() : "";
+    };
+    const cellNumber = (role: ColumnRole) =>
+      toNumber(cell(role), roles[role] || "");
+    const description = cell("description");
+    const quantity = cellNumber("quantity");
+    const unitPrice = cellNumber("unitPrice");
+    const amount = cellNumber("amount");
+    if (!description && amount === null) return;
+
+    let issue: string | null = null;
+    if (quantity !== null && unitPrice !== null && amount !== null) {
+      const expected = quantity * unitPrice;
+      if (Math.abs(expected - amount) > TOLERANCE) {
+        issue = `${quantity} × ${formatAmount(unitPrice)} is ${formatAmount(
+          expected
+        )}, not ${formatAmount(amount)}`;
+      }
+    }
+    lineItems.push({
+      chunkId: chunk.chunk_id,
+      description,
+      quantity,
+      unitPrice,
+      amount,
+      issue,
+    });
+  });
+
+  return { lineItems, totals };
+};
+
+const amountOf = (value: InvoiceValue | null) =>
+  value && NUMERIC_KINDS.includes(value.normalized.kind)
+    ? (value.normalized.value as number)
+    : null;
+
+const check = (
+  label: string,
+  expected: number,
+  actual: number
+): InvoiceCheck => ({
+  label,
+  expected,
+  actual,
+  passed: Math.abs(expected - actual) <= TOLERANCE,
+});
+
+// The reconciliation: line items against the subtotal (or the total less
+// tax when there is none), and subtotal plus tax against the total
+const reconcile = (
+  lineItems: InvoiceLineItem[],
+  totals: Invoice["totals"]
+): InvoiceCheck[] => {
+  const checks: InvoiceCheck[] = [];
+  const subtotal = amountOf(totals.subtotal);
+  const tax = amountOf(totals.tax);
+  const total = amountOf(totals.total);
+  const amounts = lineItems
+    .map((item) => item.amount)
+    .filter((amount): amount is number => amount !== null);
+
+  if (amounts.length > 0) {
+    const lineSum = amounts.reduce((sum, amount) => sum + amount, 0);
+    if (subtotal !== null) {
+      checks.push(
+        check("Line items add up to the subtotal", subtotal, lineSum)
+      );
+    } else if (total !== null) {
+      checks.push(
+        check(
+          tax !== null
+            ? "Line items add up to the total less tax"
+            : "Line items add up to the total",
+          total - (tax ?? 0),
+          lineSum
+        )
+      );
+    }
+  }
+  if (subtotal !== null && total !== null) {
+    checks.push(
+      check(
+        tax !== null
+          ? "Subtotal plus tax is the total"
+          : "Subtotal is the total",
+        total,
+        subtotal + (tax ?? 0)
+      )
+    );
+  }
+  return checks;
+};
+
+// Read an invoice out of the extracted chunks: header values from labelled
+// fields, line items from tables with description and amount columns, and
+// totals from either. Null when the document doesn't look like an invoice.
+export const extractInvoice = (
+  documentData: DocumentResponse
+): Invoice | null => {
+  const chunks = documentData.chunks;
+  const chunksById = new Map(chunks.map((chunk) => [chunk.chunk_id, chunk]));
+  const fields = getLabelledFields(chunks);
+
+  const findValue = (
+    key: InvoiceHeaderKey | InvoiceTotalKey
+  ): InvoiceValue | null => {
+    const field = fields.find((f) =>
+      LABEL_PATTERNS[key].test(normalizeLabel(f.label))
+    );
+    const chunk = field && chunksById.get(field.chunkId);
+    return field && chunk
+      ? toInvoiceValue(field.value.trim(), field.label, chunk)
+      : null;
+  };
+
+  const lineItems: InvoiceLineItem[] = [];
+  const tableTotals: Partial<Record<InvoiceTotalKey, InvoiceValue>> = {};
+  chunks
+    .filter((chunk) => chunk.chunk_type === "table")
+    .forEach((chunk) => {
+      const grid = parseTable(chunk.text);
+      const table = grid && readLineItems(chunk, grid);
+      if (!table) return;
+      lineItems.push(...table.lineItems);
+      Object.assign(tableTotals, table.totals);
+    });
+
+  // Otherwise the vendor is usually the name printed largest at the top
+  const vendorTitle = chunks.find(
+    (chunk) =>
+      chunk.chunk_type === "title" &&
+      !/^invoice$/i.test(chunk.text.replace(/^#+\s*/, "").trim())
+  );
+  const header: Invoice["header"] = {
+    vendor:
+      findValue("vendor") ||
+      (vendorTitle
+        ? toInvoiceValue(
+            vendorTitle.text.replace(/^#+\s*/, "").trim(),
+            INVOICE_HEADER_LABELS.vendor,
+            vendorTitle
+          )
+        : null),
+    invoiceNumber: findValue("invoiceNumber"),
+    invoiceDate: findValue("invoiceDate"),
+    dueDate: findValue("dueDate"),
+  };
+  const totals: Invoice["totals"] = {
+    subtotal: findValue("subtotal") || tableTotals.subtotal || null,
+    tax: findValue("tax") || tableTotals.tax || null,
+    total: findValue("total") || tableTotals.total || null,
+  };
+
+  const isInvoice =
+    lineItems.length > 0 ||
+    (!!header.invoiceNumber && (!!totals.total || !!totals.subtotal));
+  if (!isInvoice) return null;
+
+  const currencyValue = Object.values(totals).find(
+    (value) => value?.normalized.kind === "currency"
+  );
+  const checks = reconcile(lineItems, totals);
+
+  return {
+    header,
+    lineItems,
+    totals,
+    currency:
+      currencyValue?.normalized.kind === "currency"
+        ? currencyValue.normalized.currency
+        : null,
+    checks,
+    isReconciled:
+      checks.length > 0 &&
+      checks.every((c) => c.passed) &&
+      lineItems.every((item) => !item.issue),
+  };
+};
+
+const toExportValue = (value: InvoiceValue | null) =>
+  value ? { value: value.normalized.value, raw: value.raw } : null;
+
+export const invoiceToJson = (invoice: Invoice) => ({
+  vendor: toExportValue(invoice.header.vendor),
+  invoice_number: toExportValue(invoice.header.invoiceNumber),
+  invoice_date: toExportValue(invoice.header.invoiceDate),
+  due_date: toExportValue(invoice.header.dueDate),
+  currency: invoice.currency,
+  line_items: invoice.lineItems.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unitPrice,
+    amount: item.amount,
+    ...(item.issue ? { issue: item.issue } : {}),
+  })),
+  subtotal: toExportValue(invoice.totals.subtotal),
+  tax: toExportValue(invoice.totals.tax),
+  total: toExportValue(invoice.totals.total),
+  reconciliation: invoice.checks.map((c) => ({
+    check: c.label,
+    expected: c.expected,
+    actual: Math.round(c.actual * 100) / 100,
+    passed: c.passed,
+  })),
+});
+
+export const lineItemsToCsv = (lineItems: InvoiceLineItem[]) =>
+  tableToCsv([
+    ["Description", "Quantity", "Unit Price", "Amount"],
+    ...lineItems.map((item) => [
+      item.description,
+      item.quantity?.toString() ?? "",
+      item.unitPrice?.toString() ?? "",
+      item.amount?.toString() ?? "",
+    ]),
+  ]);
@@ -0,0 +1,237 @@
+import { DocumentChunk, DocumentResponse } from "@/services/documentService";
+import { parseTable, tableToCsv, tableToJsonRows } from "@/lib/tables";
+
+export type LabFlag = "high" | "low" | "abnormal";
+
+// Bounds of a reference range; either may be open, as in "<200"
+export interface ReferenceRange {
+  low: number | null;
+  high: number | null;
+  // Expected result for qualitative tests, e.g. "Negative"
+  text: string | null;
+}
+
+export interface LabResult {
+  id: string;
+  chunkId: string;
+  analyte: string;
+  // Result as printed, e.g. "<0.5" or "Trace"
+  raw: string;
+  value: number | null;
+  unit: string;
+  referenceRange: string;
+  range: ReferenceRange | null;
+  // Flag printed on the report, e.g. "H"
+  reportedFlag: string | null;
+  // Out of range by the reference range, or as flagged on the report when
+  // the range can't be read
+  flag: LabFlag | null;
+}
+
+export const LAB_FLAG_LABELS: Record<LabFlag, string> = {
+  high: "High",
+  low: "Low",
+  abnormal: "Abnormal",
+};
+
+type ColumnRole = "analyte" | "value" | "unit" | "range" | "flag";
+
+// Checked in order, so "Reference Value" is taken for the range
+const COLUMN_PATTERNS: [ColumnRole, RegExp][] = [
+  ["range", /\b(ref|reference|range|normal|interval|expected)\b/],
+  ["flag", /\b(flag|flags|abn|abnormal|status)\b/],
+  ["unit", /\b(unit|units|uom)\b/],
+  ["value", /\b(result|results|value|observed|finding)\b/],
+  [
+    "analyte",
+    /\b(test|tests|analyte|component|parameter|name|investigation)\b/,
+  ],
+];
+
+const NUMBER = /^([<>≤≥]=?)?\s*(-?\d+(?:\.\d+)?)/;
+
+// Flags printed after a result, e.g. "5.8 H" or "112 (H)"
+const INLINE_FLAG =
+  /(?:\s+|\s*\()(HH|LL|H|L|A|High|Low|Abnormal)\)?\s*\*?$|\s*\*$/i;
+
+const normalizeLabel = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[*_:.#]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const parseNumber = (text: string) => {
+  const match = NUMBER.exec(text.replace(/,/g, "").trim());
+  return match ? Number(match[2]) : null;
+};
+
+// "13.5-17.5", "3.5 – 5.0 mmol/L", "<200", ">= 60" or "Negative"
+export const parseReferenceRange = (text: string): ReferenceRange | null => {
+  const range = text.replace(/,/g, "").trim();
+  if (!range) return null;
+
+  const between = /^(-?\d+(?:\.\d+)?)\s*(?:-|–|—|to)\s*(-?\d+(?:\.\d+)?)/i.exec(
+    range
+  );
+  if (between) {
+    return { low: Number(between[1]), high: Number(between[2]), text: null };
+  }
+
+  const bound = /^(<|>|≤|≥|<=|>=)\s*(-?\d+(?:\.\d+)?)/.exec(range);
+  if (bound) {
+    const value = Number(bound[2]);
+    return /[<≤]/.test(bound[1])
+      ? { low: null, high: value, text: null }
+      : { low: value, high: null, text: null };
+  }
+
+  return /\d/.test(range) ? null : { low: null, high: null, text: range };
+};
+
+const toReportedFlag = (text: string) => {
+  const flag = text.replace(/[()*]/g, "").trim();
+  return flag || (text.includes("*") ? "*" : null);
+};
+
+const fromReportedFlag = (flag: string | null): LabFlag | null => {
+  if (!flag) return null;
+  if (/^(h|hh|high)$/i.test(flag)) return "high";
+  if (/^(l|ll|low)$/i.test(flag)) return "low";
+  return /^(n|normal)$/i.test(flag) ? null : "abnormal";
+};
+
+const getFlag = (
+  value: number | null,
+  raw: string,
+  range: ReferenceRange | null
+): LabFlag | null | undefined => {
+  if (!range) return undefined;
+  if (range.text !== null) {
+    return raw.trim().toLowerCase() === range.text.toLowerCase()
+      ? null
+      : "abnormal";
+  }
+  if (value === null) return undefined;
+  if (range.low !== null && value < range.low) return "low";
+  if (range.high !== null && value > range.high) return "high";
+  return null;
+};
+
+const getColumnRoles = (headers: string[]) => {
+  const roles: Partial<Record<ColumnRole, string>> = {};
+  headers.forEach((header) => {
+    const label = normalizeLabel(header);
+    const match = COLUMN_PATTERNS.find(
+      ([role, pattern]) => !roles[role] && pattern.test(label)
+    );
+    if (match) roles[match[0]] = header;
+  });
+  return roles;
+};
+
+const readResults = (chunk: DocumentChunk): LabResult[] => {
+  const grid = parseTable(chunk.text);
+  if (!grid) return [];
+  const rows = tableToJsonRows(grid);
+  const roles = getColumnRoles(Object.keys(rows[0] || {}));
+  if (!roles.analyte || !roles.value) return [];
+
+  return rows.flatMap((row, index) => {
+    const cell = (role: ColumnRole) => {
+      const header = roles[role];
+      return header ? (row[header] || "").trim() : "";
+    };
+    const analyte = cell("analyte");
+    let raw = cell("value");
+    if (!analyte || !raw) return [];
+
+    // Without their own columns, flags and units are printed with the result
+    let reportedFlag = roles.flag ? toReportedFlag(cell("flag")) : null;
+    const inlineFlag = INLINE_FLAG.exec(raw);
+    if (inlineFlag && NUMBER.test(raw)) {
+      reportedFlag = reportedFlag || toReportedFlag(inlineFlag[0]);
+      raw = raw.slice(0, inlineFlag.index).trim();
+    }
+    let unit = cell("unit");
+    const number = NUMBER.exec(raw);
+    if (!roles.unit && number) {
+      unit = raw.slice(number[0].length).trim();
+      raw = number[0].trim();
+    }
+
+    const referenceRange = cell("range");
+    const range = parseReferenceRange(referenceRange);
+    const value = parseNumber(raw);
+    const flag = getFlag(value, raw, range);
+
+    return [
+      {
+        id: `${chunk.chunk_id}-${index}`,
+        chunkId: chunk.chunk_id,
+        analyte,
+        raw,
+        value,
+        unit,
+        referenceRange,
+        range,
+        reportedFlag,
+        flag: flag === undefined ? fromReportedFlag(reportedFlag) : flag,
+      },
+    ];
+  });
+};
+
+// Results from every table with test and result columns. Reports without a
+// reference range anywhere are left alone, as other tables have these too.
+export const extractLabResults = (
+  documentData: DocumentResponse
+): LabResult[] => {
+  const results = documentData.chunks
+    .filter((chunk) => chunk.chunk_type === "table")
+    .flatMap(readResults);
+  return results.some((result) => result.range) ? results : [];
+};
+
+// Out-of-range results by the chunk they were read from, for the page
+export const getAbnormalResultsByChunk = (
+  results: LabResult[]
+): Record<string, string[]> => {
+  const abnormal: Record<string, string[]> = {};
+  results.forEach((result) => {
+    if (!result.flag) return;
+    abnormal[result.chunkId] = [
+      ...(abnormal[result.chunkId] || []),
+      `${result.analyte}: ${result.raw}${result.unit ? ` ${result.unit}` : ""}${
+        result.referenceRange ? ` (${result.referenceRange})` : ""
+      } — ${LAB_FLAG_LABELS[result.flag]}`,
+    ];
+  });
+  return abnormal;
+};
+
+export const labResultsToJson = (results: LabResult[]) =>
+  results.map((result) => ({
+    analyte: result.analyte,
+    value: result.value ?? result.raw,
+    raw: result.raw,
+    unit: result.unit || null,
+    reference_range: result.referenceRange || null,
+    reference_low: result.range?.low ?? null,
+    reference_high: result.range?.high ?? null,
+    reported_flag: result.reportedFlag,
+    flag: result.flag,
+    out_of_range: result.flag !== null,
+  }));
+
+export const labResultsToCsv = (results: LabResult[]) =>
+  tableToCsv([
+    ["Analyte", "Value", "Unit", "Reference Range", "Flag"],
+    ...results.map((result) => [
+      result.analyte,
+      result.raw,
+      result.unit,
+      result.referenceRange,
+      result.flag ? LAB_FLAG_LABELS[result.flag] : "",
+    ]),
+  ]);
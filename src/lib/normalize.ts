@@ -0,0 +1,205 @@
+// Typed readings of the raw strings fields come back as. The raw text is kept
+// next to the value, so that nothing read from the page is lost.
+
+export type ValueKind =
+  | "blank"
+  | "currency"
+  | "percentage"
+  | "date"
+  | "phone"
+  | "number"
+  | "text";
+
+export type NormalizedValue =
+  | { kind: "blank"; raw: string; value: null }
+  | { kind: "currency"; raw: string; value: number; currency: string }
+  | { kind: "percentage"; raw: string; value: number }
+  | { kind: "date"; raw: string; value: string }
+  | { kind: "phone"; raw: string; value: string }
+  | { kind: "number"; raw: string; value: number }
+  | { kind: "text"; raw: string; value: string };
+
+const CURRENCY_CODES: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Fill-in lines, lone currency signs and "N/A" as printed on empty forms
+const BLANK =
+  /^(?:[$€£¥₹]|usd|eur|gbp)?\s*(?:_+|\.{3,}|-+|–|—|n\/?a|none)?\s*$/i;
+
+// 1,234.56 with optional thousands separators; the sign is handled by callers
+const AMOUNT = /^(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?$/;
+
+const CURRENCY =
+  /^(\()?\s*(-)?\s*([$€£¥₹]|USD|EUR|GBP|JPY|INR)?\s*(-)?\s*([\d,]+(?:\.\d+)?)\s*([$€£¥₹]|USD|EUR|GBP|JPY|INR)?\s*(\))?$/i;
+
+const PERCENTAGE = /^(-?[\d,]*\.?\d+)\s*%$/;
+
+const PHONE = /^(\+?\d{1,3}[\s.-]?)?\(?(\d{3})\)?[\s.-]?(\d{3})[\s.-]?(\d{4})$/;
+
+// Labels of values that are identifiers, even when written as digits. "Number
+// of units" is a count.
+const CODE_LABEL =
+  /\b(zip|postal|account|acct|routing|ssn|id|mrn|policy|member|reference|ref)\b|\b(number|no)\b(?!\s+of)/i;
+
+const parseAmount = (text: string) =>
+  AMOUNT.test(text) ? Number(text.replace(/,/g, "")) : null;
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const fullYear = year < 100 ? (year < 50 ? 2000 + year : 1900 + year) : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  const isValid =
+    date.getUTCFullYear() === fullYear &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day;
+  return isValid ? date.toISOString().slice(0, 10) : null;
+};
+
+const parseMonth = (name: string) => {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index >= 0 ? index + 1 : null;
+};
+
+// Slashes are read month first as on US forms, dots day first as in Europe
+export const parseDate = (text: string): string | null => {
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  match = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/.exec(text);
+  if (match) return toIsoDate(+match[3], +match[1], +match[2]);
+
+  match = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/.exec(text);
+  if (match) return toIsoDate(+match[3], +match[2], +match[1]);
+
+  // January 5, 2024 / Jan 5 2024
+  match = /^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i.exec(
+    text
+  );
+  if (match && parseMonth(match[1])) {
+    return toIsoDate(+match[3], parseMonth(match[1]) as number, +match[2]);
+  }
+
+  // 5 January 2024 / 5-Jan-2024
+  match =
+    /^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,9})\.?,?[\s-]+(\d{4})$/i.exec(
+      text
+    );
+  if (match && parseMonth(match[2])) {
+    return toIsoDate(+match[3], parseMonth(match[2]) as number, +match[1]);
+  }
+
+  return null;
+};
+
+// The label, when known, tells codes from quantities
+export const normalizeValue = (
+  raw: string,
+  label?: string
+): NormalizedValue => {
+  const text = raw.trim();
+
+  if (BLANK.test(text)) return { kind: "blank", raw, value: null };
+
+  const currency = CURRENCY.exec(text);
+  if (currency && (currency[3] || currency[6])) {
+    const amount = parseAmount(currency[5]);
+    const symbol = (currency[3] || currency[6]).toUpperCase();
+    const isNegative =
+      !!(currency[2] || currency[4]) || !!(currency[1] && currency[7]);
+    if (amount !== null && !!currency[1] === !!currency[7]) {
+      return {
+        kind: "currency",
+        raw,
+        value: isNegative ? -amount : amount,
+        currency: CURRENCY_CODES[symbol] || symbol,
+      };
+    }
+  }
+
+  const percentage = PERCENTAGE.exec(text);
+  if (percentage) {
+    const value = Number(percentage[1].replace(/,/g, ""));
+    if (!Number.isNaN(value)) return { kind: "percentage", raw, value };
+  }
+
+  const date = parseDate(text);
+  if (date) return { kind: "date", raw, value: date };
+
+  const phone = PHONE.exec(text);
+  // Needs some punctuation, so that plain ten-digit numbers stay numbers
+  if (phone && /[\s().+-]/.test(text)) {
+    const country = phone[1] ? phone[1].replace(/\D/g, "") : "1";
+    return {
+      kind: "phone",
+      raw,
+      value: `+${country}${phone[2]}${phone[3]}${phone[4]}`,
+    };
+  }
+
+  // International numbers, written with their country code
+  const digits = text.replace(/\D/g, "");
+  if (
+    /^\+\d[\d\s().-]+\d$/.test(text) &&
+    digits.length >= 8 &&
+    digits.length <= 15
+  ) {
+    return { kind: "phone", raw, value: `+${digits}` };
+  }
+
+  // Leading zeros only matter in codes, as do the digits of anything labelled
+  // as one (ZIP, account numbers)
+  const isCode =
+    /^0\d/.test(text) ||
+    (!!label && CODE_LABEL.test(label) && /^\d+$/.test(text));
+  const sign = text.startsWith("-") ? -1 : 1;
+  const number = isCode ? null : parseAmount(text.replace(/^-/, ""));
+  if (number !== null) return { kind: "number", raw, value: sign * number };
+
+  return { kind: "text", raw, value: text };
+};
+
+// How a value reads once normalized, e.g. "USD 100,000.00"
+export const formatNormalizedValue = (normalized: NormalizedValue): string => {
+  switch (normalized.kind) {
+    case "blank":
+      return "Blank";
+    case "currency":
+      return `${normalized.currency} ${normalized.value.toLocaleString(
+        undefined,
+        { minimumFractionDigits: 2, maximumFractionDigits: 2 }
+      )}`;
+    case "percentage":
+      return `${normalized.value}%`;
+    case "number":
+      return normalized.value.toLocaleString();
+    default:
+      return normalized.value;
+  }
+};
+
+// For exports: the typed value, its kind and the text it was read from
+export const toExportValue = (normalized: NormalizedValue) => ({
+  value: normalized.value,
+  value_type: normalized.kind,
+  ...(normalized.kind === "currency" ? { currency: normalized.currency } : {}),
+  raw: normalized.raw,
+});
@@ -0,0 +1,71 @@
+import {
+  getDocument,
+  GlobalWorkerOptions,
+  RenderingCancelledException,
+} from "pdfjs-dist";
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+export type { PDFDocumentProxy, PDFPageProxy, RenderTask };
+
+// Rasterization runs in a dedicated worker so large scans don't block the UI
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export const isPdfDocument = (mimeType?: string, fileName?: string) => {
+  if (mimeType === "application/pdf") {
+    return true;
+  }
+  return !!fileName && fileName.toLowerCase().endsWith(".pdf");
+};
+
+export const loadPdfDocument = (url: string) => {
+  return getDocument({ url });
+};
+
+// pdf.js replaces the page's own /Rotate with the rotation it is given,
+// so extra user rotation has to be added on top of it
+const getViewRotation = (page: PDFPageProxy, rotation: number) =>
+  (page.rotate + rotation) % 360;
+
+// Get the unscaled size of a page (in PDF points)
+export const getPdfPageSize = (page: PDFPageProxy, rotation = 0): PageSize => {
+  const viewport = page.getViewport({
+    scale: 1,
+    rotation: getViewRotation(page, rotation),
+  });
+  return { width: viewport.width, height: viewport.height };
+};
+
+// Render a page into a canvas so that it is displayed at `cssWidth` pixels wide.
+// The backing store is scaled by devicePixelRatio to keep the raster sharp.
+export const renderPdfPage = (
+  page: PDFPageProxy,
+  canvas: HTMLCanvasElement,
+  cssWidth: number,
+  rotation = 0
+): RenderTask => {
+  const viewRotation = getViewRotation(page, rotation);
+  const unscaled = page.getViewport({ scale: 1, rotation: viewRotation });
+  const scale = cssWidth / unscaled.width;
+  const outputScale = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({
+    scale: scale * outputScale,
+    rotation: viewRotation,
+  });
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${Math.floor(viewport.width / outputScale)}px`;
+  canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`;
+
+  const context = canvas.getContext("2d");
+  return page.render({ canvasContext: context, viewport });
+};
+
+export const isRenderCancelled = (error: unknown) =>
+  error instanceof RenderingCancelledException;
@@ -0,0 +1,52 @@
+import { BoxCoordinates, DocumentChunk } from "@/services/documentService";
+
+export interface ReadingOrderStop {
+  chunkId: string;
+  // 1-based position of the chunk in the document
+  order: number;
+  box: BoxCoordinates;
+}
+
+// The chunks on a page (0-indexed) in the order they appear in the document,
+// each at its first region on that page
+export const getReadingOrderStops = (
+  chunks: DocumentChunk[],
+  page: number
+): ReadingOrderStop[] =>
+  chunks.flatMap((chunk, index) => {
+    const grounding = (chunk.grounding || []).find((g) => g.page === page);
+    return grounding
+      ? [{ chunkId: chunk.chunk_id, order: index + 1, box: grounding.box }]
+      : [];
+  });
+
+const overlapsHorizontally = (a: BoxCoordinates, b: BoxCoordinates) =>
+  a.l < b.r && b.l < a.r;
+
+// Where a new chunk grounded at `box` on `page` belongs in `chunks`: after the
+// last chunk above it in the same column or in a column to its left, or
+// between the chunks of the surrounding pages when the page has none
+export const getInsertionIndex = (
+  chunks: DocumentChunk[],
+  page: number,
+  box: BoxCoordinates
+): number => {
+  const stops = getReadingOrderStops(chunks, page);
+
+  if (stops.length === 0) {
+    const nextIndex = chunks.findIndex((chunk) =>
+      (chunk.grounding || []).some((g) => g.page > page)
+    );
+    return nextIndex >= 0 ? nextIndex : chunks.length;
+  }
+
+  const preceding = stops.filter(
+    (stop) =>
+      stop.box.r <= box.l ||
+      (overlapsHorizontally(stop.box, box) && stop.box.t < box.t)
+  );
+
+  return preceding.length > 0
+    ? Math.max(...preceding.map((stop) => stop.order))
+    : stops[0].order - 1;
+};
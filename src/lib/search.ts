@@ -0,0 +1,81 @@
+import { DocumentChunk } from "@/services/documentService";
+
+export interface SearchHit {
+  chunkId: string;
+  chunkIndex: number;
+  // 0-indexed page of the chunk's first grounding, -1 if it has none
+  page: number;
+  // Offsets of the match in the chunk's plain text
+  start: number;
+  end: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+const SNIPPET_CONTEXT = 40;
+
+// Strip the markup that users don't see in the rendered block so that
+// searches match the visible text
+export const toPlainText = (text: string): string => {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, " ") // HTML comments
+    .replace(/<[^>]+>/g, " ") // HTML tags (tables)
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1") // links and images
+    .replace(/^\s*#+\s+/gm, "") // headings
+    .replace(/[*_~`]+/g, "") // emphasis and code
+    .replace(/[ \t]+/g, " ")
+    .trim();
+};
+
+const trimSnippet = (text: string, fromEnd: boolean) => {
+  const collapsed = text.replace(/\s+/g, " ");
+  if (collapsed.length <= SNIPPET_CONTEXT) return collapsed;
+  return fromEnd
+    ? "…" + collapsed.slice(-SNIPPET_CONTEXT)
+    : collapsed.slice(0, SNIPPET_CONTEXT) + "…";
+};
+
+// Case-insensitive search through every chunk, ordered by page and then by
+// position in the document
+export const searchChunks = (
+  chunks: DocumentChunk[],
+  query: string
+): SearchHit[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const hits: SearchHit[] = [];
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const plainText = toPlainText(chunk.text || "");
+    const haystack = plainText.toLowerCase();
+    const page = chunk.grounding?.length ? chunk.grounding[0].page : -1;
+
+    let start = haystack.indexOf(needle);
+    while (start !== -1) {
+      const end = start + needle.length;
+      hits.push({
+        chunkId: chunk.chunk_id,
+        chunkIndex,
+        page,
+        start,
+        end,
+        before: trimSnippet(plainText.slice(0, start), true),
+        match: plainText.slice(start, end),
+        after: trimSnippet(plainText.slice(end), false),
+      });
+      start = haystack.indexOf(needle, end);
+    }
+  });
+
+  // Chunks without a location go last
+  const pageOrder = (page: number) =>
+    page < 0 ? Number.MAX_SAFE_INTEGER : page;
+  return hits.sort(
+    (a, b) =>
+      pageOrder(a.page) - pageOrder(b.page) ||
+      a.chunkIndex - b.chunkIndex ||
+      a.start - b.start
+  );
+};
@@ -0,0 +1,349 @@
+import { DocumentChunk } from "@/services/documentService";
+
+// Tables come back either as HTML (<table>) or as markdown pipe tables
+
+const HTML_TABLE_TAGS = [
+  { tag: "table", open: /<table[\s>]/gi, close: /<\/table>/gi },
+  { tag: "tr", open: /<tr[\s>]/gi, close: /<\/tr>/gi },
+];
+
+const countMatches = (text: string, pattern: RegExp) =>
+  (text.match(pattern) || []).length;
+
+const getHtmlRowWidths = (html: string): number[] =>
+  (html.match(/<tr[\s>][\s\S]*?<\/tr>/gi) || []).map((row) =>
+    (row.match(/<t[hd][^>]*>/gi) || []).reduce((width, cell) => {
+      const colspan = cell.match(/colspan\s*=\s*["']?(\d+)/i);
+      return width + (colspan ? Number(colspan[1]) : 1);
+    }, 0)
+  );
+
+// Consecutive lines starting with a pipe, as lists of cell counts
+const getMarkdownTables = (text: string): number[][] => {
+  const tables: number[][] = [];
+  let current: number[] = [];
+
+  text.split("\n").forEach((line) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("|")) {
+      const cells = trimmed.replace(/^\||\|$/g, "").split("|");
+      current.push(cells.length);
+    } else if (current.length > 0) {
+      tables.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) tables.push(current);
+
+  return tables;
+};
+
+// Structural problems that would make a table render badly, e.g. after a
+// manual correction dropped a cell or a closing tag
+export const findTableIssues = (text: string): string[] => {
+  const issues: string[] = [];
+
+  HTML_TABLE_TAGS.forEach(({ tag, open, close }) => {
+    const opened = countMatches(text, open);
+    const closed = countMatches(text, close);
+    if (opened !== closed) {
+      issues.push(`${opened} <${tag}> tags but ${closed} </${tag}> tags`);
+    }
+  });
+
+  const checkWidths = (widths: number[]) => {
+    const expected = widths[0];
+    widths.forEach((width, index) => {
+      if (width !== expected) {
+        issues.push(
+          `Row ${index + 1} has ${width} cells, expected ${expected}`
+        );
+      }
+    });
+  };
+
+  // Cells spanning rows make the width of a single row meaningless
+  if (!/rowspan/i.test(text)) {
+    checkWidths(getHtmlRowWidths(text));
+  }
+  getMarkdownTables(text).forEach(checkWidths);
+
+  return issues;
+};
+
+export interface TableCell {
+  text: string;
+  isHeader: boolean;
+  rowSpan: number;
+  colSpan: number;
+}
+
+// A table as it appears in the source: rows of cells, some spanning several
+// rows or columns
+export interface TableGrid {
+  rows: TableCell[][];
+  // The syntax it was written in, kept when the table is written back
+  format: "html" | "pipe";
+  // Where the table sits in the chunk text, so that it can be replaced
+  start: number;
+  end: number;
+}
+
+const isSeparatorRow = (line: string) =>
+  /^\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*\|?$/.test(line.trim());
+
+// Pipes escaped as \| belong to the cell text
+const splitPipeRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(^|[^\\])\|$/, "$1")
+    .split("|")
+    .reduce<string[]>((cells, part, index, parts) => {
+      if (index > 0 && parts[index - 1].endsWith("\\")) {
+        cells[cells.length - 1] = `${cells[cells.length - 1].slice(
+          0,
+          -1
+        )}|${part}`;
+      } else {
+        cells.push(part);
+      }
+      return cells;
+    }, [])
+    .map((cell) => cell.trim());
+
+const parseHtmlTable = (text: string): TableGrid | null => {
+  const match = /<table[\s>][\s\S]*?<\/table>/i.exec(text);
+  if (!match) return null;
+
+  const table = new DOMParser()
+    .parseFromString(match[0], "text/html")
+    .querySelector("table");
+  if (!table) return null;
+
+  const rows = Array.from(table.rows).map((row) =>
+    Array.from(row.cells).map((cell) => ({
+      text: (cell.textContent || "").trim(),
+      isHeader: cell.tagName === "TH",
+      rowSpan: Math.max(1, cell.rowSpan),
+      colSpan: Math.max(1, cell.colSpan),
+    }))
+  );
+
+  return {
+    rows,
+    format: "html",
+    start: match.index,
+    end: match.index + match[0].length,
+  };
+};
+
+const parsePipeTable = (text: string): TableGrid | null => {
+  const lines = text.split("\n");
+  let offset = 0;
+  let start = -1;
+  let end = -1;
+  const rows: TableCell[][] = [];
+
+  for (const line of lines) {
+    const isTableLine = line.trim().startsWith("|");
+    if (isTableLine) {
+      if (start < 0) start = offset;
+      end = offset + line.length;
+      if (!isSeparatorRow(line)) {
+        // Without a marker the first row is taken to be the header
+        const isHeader = rows.length === 0;
+        rows.push(
+          splitPipeRow(line).map((cell) => ({
+            text: cell,
+            isHeader,
+            rowSpan: 1,
+            colSpan: 1,
+          }))
+        );
+      }
+    } else if (start >= 0) {
+      break;
+    }
+    offset += line.length + 1;
+  }
+
+  return rows.length > 0 ? { rows, format: "pipe", start, end } : null;
+};
+
+// The first table in a chunk, HTML or markdown
+export const parseTable = (text: string): TableGrid | null =>
+  parseHtmlTable(text) || parsePipeTable(text);
+
+// Lay the cells out on a full grid. Positions covered by a spanning cell
+// repeat its text, so that every row has a value for every column.
+export const getTableMatrix = (grid: TableGrid): string[][] => {
+  const matrix: string[][] = [];
+
+  grid.rows.forEach((row, rowIndex) => {
+    matrix[rowIndex] = matrix[rowIndex] || [];
+    let column = 0;
+
+    row.forEach((cell) => {
+      while (matrix[rowIndex][column] !== undefined) column++;
+      for (let r = 0; r < cell.rowSpan; r++) {
+        const target = (matrix[rowIndex + r] = matrix[rowIndex + r] || []);
+        for (let c = 0; c < cell.colSpan; c++) {
+          target[column + c] = cell.text;
+        }
+      }
+      column += cell.colSpan;
+    });
+  });
+
+  const width = Math.max(0, ...matrix.map((row) => row.length));
+  return matrix.map((row) =>
+    Array.from({ length: width }, (_, column) => row[column] ?? "")
+  );
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const tableGridToHtml = (grid: TableGrid): string => {
+  const rows = grid.rows.map((row) => {
+    const cells = row.map((cell) => {
+      const tag = cell.isHeader ? "th" : "td";
+      const spans =
+        (cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : "") +
+        (cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : "");
+      return `    <${tag}${spans}>${escapeHtml(cell.text)}</${tag}>`;
+    });
+    return `  <tr>\n${cells.join("\n")}\n  </tr>`;
+  });
+  return `<table>\n${rows.join("\n")}\n</table>`;
+};
+
+const escapePipeCell = (text: string) =>
+  text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+// A markdown table: its first row is the header
+export const tableGridToPipe = (grid: TableGrid): string => {
+  const matrix = getTableMatrix(grid);
+  const toLine = (row: string[]) =>
+    `| ${row.map(escapePipeCell).join(" | ")} |`;
+  const separator = `|${(matrix[0] || []).map(() => " --- |").join("")}`;
+  return [
+    toLine(matrix[0] || []),
+    separator,
+    ...matrix.slice(1).map(toLine),
+  ].join("\n");
+};
+
+// Markdown tables can't span cells, so those are kept in HTML
+const hasSpans = (grid: TableGrid) =>
+  grid.rows.some((row) =>
+    row.some((cell) => cell.rowSpan > 1 || cell.colSpan > 1)
+  );
+
+// Put an edited table back into the chunk text it was parsed from, in the
+// syntax it was written in
+export const replaceTable = (text: string, grid: TableGrid): string =>
+  text.slice(0, grid.start) +
+  (grid.format === "pipe" && !hasSpans(grid)
+    ? tableGridToPipe(grid)
+    : tableGridToHtml(grid)) +
+  text.slice(grid.end);
+
+const toCsvField = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const tableToCsv = (matrix: string[][]): string =>
+  matrix.map((row) => row.map(toCsvField).join(",")).join("\n");
+
+// Tabs and line breaks inside cells would break the row structure
+export const tableToTsv = (matrix: string[][]): string =>
+  matrix
+    .map((row) =>
+      row.map((value) => value.replace(/[\t\r\n]+/g, " ")).join("\t")
+    )
+    .join("\n");
+
+// Leading rows made up of header cells only, and at least one
+const getHeaderRowCount = (grid: TableGrid) =>
+  Math.max(
+    1,
+    grid.rows.findIndex((row) => !row.every((cell) => cell.isHeader))
+  );
+
+// One object per body row, keyed by the header row
+export const tableToJsonRows = (grid: TableGrid): Record<string, string>[] => {
+  const matrix = getTableMatrix(grid);
+  const headerRowCount = getHeaderRowCount(grid);
+  const seen: Record<string, number> = {};
+  const keys = (matrix[headerRowCount - 1] || []).map((header, column) => {
+    const key = header || `Column ${column + 1}`;
+    seen[key] = (seen[key] || 0) + 1;
+    return seen[key] > 1 ? `${key} (${seen[key]})` : key;
+  });
+
+  return matrix.slice(headerRowCount).map((row) =>
+    keys.reduce<Record<string, string>>((record, key, column) => {
+      record[key] = row[column];
+      return record;
+    }, {})
+  );
+};
+
+// Header text compared loosely, since OCR spacing and case vary by page
+const getHeaderKey = (grid: TableGrid) =>
+  getTableMatrix(grid)
+    .slice(0, getHeaderRowCount(grid))
+    .map((row) => row.join("|"))
+    .join("\n")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Join the parts of a table split across pages, dropping the header rows that
+// are repeated at the top of every part after the first
+export const stitchTableGrids = (grids: TableGrid[]): TableGrid => ({
+  ...grids[0],
+  rows: grids.flatMap((grid, index) =>
+    index === 0 ? grid.rows : grid.rows.slice(getHeaderRowCount(grid))
+  ),
+});
+
+// Runs of table chunks on consecutive pages with the same header rows, which
+// is how a table that continues across a page break is extracted. Other chunk
+// types in between, such as page headers and footers, are skipped.
+export const findContinuedTables = (chunks: DocumentChunk[]): string[][] => {
+  const runs: string[][] = [];
+  let run: string[] = [];
+  let previous: { headerKey: string; lastPage: number } | null = null;
+
+  const endRun = () => {
+    if (run.length > 1) runs.push(run);
+    run = [];
+  };
+
+  for (const chunk of chunks) {
+    if (chunk.chunk_type !== "table") continue;
+
+    const grid = parseTable(chunk.text);
+    const pages = (chunk.grounding || []).map((grounding) => grounding.page);
+    const headerKey = grid ? getHeaderKey(grid) : "";
+    if (!grid || pages.length === 0 || !/\w/.test(headerKey)) {
+      endRun();
+      previous = null;
+      continue;
+    }
+
+    const isContinuation =
+      previous !== null &&
+      previous.headerKey === headerKey &&
+      Math.min(...pages) === previous.lastPage + 1;
+    if (!isContinuation) endRun();
+
+    run.push(chunk.chunk_id);
+    previous = { headerKey, lastPage: Math.max(...pages) };
+  }
+  endRun();
+
+  return runs;
+};
@@ -0,0 +1,332 @@
+import {
+  BoxCoordinates,
+  DocumentChunk,
+  DocumentResponse,
+  Grounding,
+} from "@/services/documentService";
+import { ChunkType } from "@/lib/chunkTypes";
+import {
+  FIELD_CHUNK_TYPES,
+  getChoiceGroups,
+  getChoiceValue,
+  getFormFields,
+  parseFormFields,
+} from "@/lib/formFields";
+import { boxesIntersect } from "@/lib/geometry";
+import { NormalizedValue, normalizeValue, ValueKind } from "@/lib/normalize";
+
+export type TemplateFieldType =
+  | "text"
+  | "number"
+  | "currency"
+  | "percentage"
+  | "date"
+  | "phone"
+  | "boolean"
+  | "choice";
+
+export const TEMPLATE_FIELD_TYPES: TemplateFieldType[] = [
+  "text",
+  "number",
+  "currency",
+  "percentage",
+  "date",
+  "phone",
+  "boolean",
+  "choice",
+];
+
+// Where to look for a field. Every hint given must match.
+export interface TemplateFieldMatch {
+  // Text of the label, matched case-insensitively. Without it the whole text
+  // of the first chunk passing the other hints is taken.
+  label?: string;
+  chunkType?: ChunkType;
+  // 1-based, as shown to the user
+  page?: number;
+  // Part of the page, as fractions of its size
+  region?: BoxCoordinates;
+}
+
+// Checks on a field's value once it has been found
+export interface FieldRules {
+  // Name of a format in FORMAT_PRESETS, or a regular expression
+  format?: string;
+  min?: number;
+  max?: number;
+  // Required whenever another field has a value, or the given value
+  requiredIf?: { field: string; equals?: string };
+}
+
+export interface TemplateField {
+  name: string;
+  type: TemplateFieldType;
+  required: boolean;
+  match: TemplateFieldMatch;
+  rules?: FieldRules;
+}
+
+// The listed fields must add up to the total field, e.g. line items to the
+// invoice total
+export interface SumCheck {
+  fields: string[];
+  total: string;
+  // Allowed difference, for rounding on the document
+  tolerance?: number;
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  fields: TemplateField[];
+  sumChecks?: SumCheck[];
+  updatedAt: number;
+}
+
+export type TemplateValue = string | number | boolean | string[] | null;
+
+export interface ResolvedField {
+  name: string;
+  type: TemplateFieldType;
+  required: boolean;
+  // Text as found in the document, before conversion
+  raw: string | null;
+  value: TemplateValue;
+  // How the raw text reads, typed; null for choices and checkboxes
+  normalized: NormalizedValue | null;
+  chunkId: string | null;
+  grounding: Grounding[] | null;
+  errors: string[];
+}
+
+export interface TemplateResult {
+  templateId: string;
+  fields: ResolvedField[];
+  // Field name to value, ready for export
+  record: Record<string, TemplateValue>;
+  // Problems with the template itself, such as a check naming a field it
+  // doesn't have
+  errors: string[];
+  isValid: boolean;
+}
+
+interface Candidate {
+  raw: string | null;
+  value?: TemplateValue;
+  chunk: DocumentChunk;
+}
+
+const normalizeLabel = (text: string) =>
+  text.toLowerCase().replace(/[*_:]/g, "").replace(/\s+/g, " ").trim();
+
+const matchesChunk = (chunk: DocumentChunk, match: TemplateFieldMatch) => {
+  if (match.chunkType && chunk.chunk_type !== match.chunkType) return false;
+  const groundings = chunk.grounding || [];
+  if (match.page !== undefined || match.region) {
+    return groundings.some(
+      (grounding) =>
+        (match.page === undefined || grounding.page === match.page - 1) &&
+        (!match.region || boxesIntersect(grounding.box, match.region))
+    );
+  }
+  return true;
+};
+
+const findCandidate = (
+  chunks: DocumentChunk[],
+  field: TemplateField
+): Candidate | null => {
+  const candidates = chunks.filter((chunk) => matchesChunk(chunk, field.match));
+  if (!field.match.label) {
+    return candidates[0]
+      ? { raw: candidates[0].text.trim(), chunk: candidates[0] }
+      : null;
+  }
+  const label = normalizeLabel(field.match.label);
+
+  if (field.type === "choice") {
+    const group = getChoiceGroups(candidates).find((choice) =>
+      [choice.label, choice.section || "", choice.key].some((name) =>
+        normalizeLabel(name).includes(label)
+      )
+    );
+    const chunk = group && candidates.find((c) => c.chunk_id === group.chunkId);
+    return group && chunk
+      ? { raw: group.selected.join(", "), value: getChoiceValue(group), chunk }
+      : null;
+  }
+
+  // Labelled values of forms first, then "Label: value" anywhere in the text
+  const formFields = getFormFields(candidates).concat(
+    candidates
+      .filter((chunk) => !FIELD_CHUNK_TYPES.includes(chunk.chunk_type))
+      .flatMap((chunk) =>
+        parseFormFields({ ...chunk, chunk_type: "key_value" })
+      )
+  );
+  const formField =
+    formFields.find((f) => normalizeLabel(f.label) === label) ||
+    formFields.find((f) => normalizeLabel(f.label).includes(label));
+  const chunk =
+    formField && candidates.find((c) => c.chunk_id === formField.chunkId);
+  if (!formField || !chunk) return null;
+
+  return formField.kind === "checkbox"
+    ? {
+        raw: formField.checked ? "[x]" : "[ ]",
+        value: formField.checked,
+        chunk,
+      }
+    : { raw: formField.value, chunk };
+};
+
+const NUMERIC_KINDS: ValueKind[] = ["number", "currency", "percentage"];
+
+// Convert found text to the field's type, explaining why when it can't be
+const convertValue = (
+  normalized: NormalizedValue,
+  type: TemplateFieldType
+): { value: TemplateValue; error?: string } => {
+  const { raw, kind, value } = normalized;
+  switch (type) {
+    case "number":
+    case "currency":
+    case "percentage":
+      return NUMERIC_KINDS.includes(kind)
+        ? { value }
+        : { value: null, error: `"${raw}" is not a number` };
+    case "date":
+    case "phone":
+      return kind === type
+        ? { value }
+        : { value: null, error: `"${raw}" is not a ${type}` };
+    case "boolean": {
+      if (/^(\[x\]|yes|y|true|checked)$/i.test(raw)) return { value: true };
+      if (/^(\[ \]|no|n|false|unchecked)$/i.test(raw)) return { value: false };
+      return { value: null, error: `"${raw}" is not yes or no` };
+    }
+    default:
+      return { value: raw.trim() };
+  }
+};
+
+const resolveField = (
+  chunks: DocumentChunk[],
+  field: TemplateField
+): ResolvedField => {
+  const candidate = findCandidate(chunks, field);
+  const resolved: ResolvedField = {
+    name: field.name,
+    type: field.type,
+    required: field.required,
+    raw: candidate?.raw ?? null,
+    value: null,
+    normalized: null,
+    chunkId: candidate?.chunk.chunk_id ?? null,
+    grounding: candidate?.chunk.grounding ?? null,
+    errors: [],
+  };
+
+  if (candidate?.value !== undefined) {
+    resolved.value = candidate.value;
+  } else if (candidate?.raw) {
+    // Names are often snake_case, e.g. zip_code
+    resolved.normalized = normalizeValue(
+      candidate.raw,
+      field.match.label || field.name.replace(/_/g, " ")
+    );
+    if (resolved.normalized.kind !== "blank") {
+      const { value, error } = convertValue(resolved.normalized, field.type);
+      resolved.value = value;
+      if (error) resolved.errors.push(error);
+    }
+  }
+
+  const isEmpty =
+    resolved.value === null ||
+    (Array.isArray(resolved.value) && resolved.value.length === 0);
+  if (field.required && isEmpty && resolved.errors.length === 0) {
+    resolved.errors.push(
+      candidate ? "Required, but blank" : "Required, but not found"
+    );
+  }
+  return resolved;
+};
+
+// Fill a template from an extracted document. Each field keeps the grounding
+// of the chunk it was read from.
+export const applyTemplate = (
+  template: ExtractionTemplate,
+  documentData: DocumentResponse
+): TemplateResult => {
+  const fields = template.fields.map((field) =>
+    resolveField(documentData.chunks, field)
+  );
+  return {
+    templateId: template.id,
+    fields,
+    record: Object.fromEntries(
+      fields.map((field) => [field.name, field.value])
+    ),
+    errors: [],
+    isValid: fields.every((field) => field.errors.length === 0),
+  };
+};
+
+// The field type a value found in the document suggests. A blank still
+// hints at money when printed after a currency sign, as in "$ _______".
+const getFieldType = ({ kind, raw }: NormalizedValue): TemplateFieldType => {
+  if (kind === "blank") return /[$€£¥₹]/.test(raw) ? "currency" : "text";
+  return kind === "text" ? "text" : kind;
+};
+
+// A starting point for a template: one field per labelled value and choice
+// found in the document
+export const createTemplateFromDocument = (
+  name: string,
+  documentData: DocumentResponse
+): ExtractionTemplate => {
+  const choiceFields: TemplateField[] = getChoiceGroups(
+    documentData.chunks
+  ).map((group) => ({
+    name: group.key,
+    type: "choice",
+    required: false,
+    match: { label: group.section || group.label },
+  }));
+  const valueFields: TemplateField[] = getFormFields(documentData.chunks)
+    .filter((field) => field.kind === "text")
+    .map((field) => ({
+      name: field.label,
+      type: getFieldType(normalizeValue(field.value, field.label)),
+      required: false,
+      match: { label: field.label },
+    }));
+
+  return {
+    id: `template-${Date.now().toString(36)}`,
+    name,
+    fields: [...valueFields, ...choiceFields],
+    updatedAt: Date.now(),
+  };
+};
+
+// Templates are kept in the browser, shared by every document
+const TEMPLATES_STORAGE_KEY = "extraction-templates";
+
+export const loadTemplates = (): ExtractionTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: ExtractionTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Error saving extraction templates:", error);
+  }
+};
@@ -0,0 +1,212 @@
+import {
+  ExtractionTemplate,
+  FieldRules,
+  ResolvedField,
+  TemplateResult,
+  TemplateValue,
+} from "@/lib/templates";
+
+export const FORMAT_PRESETS: Record<
+  string,
+  { label: string; pattern: RegExp }
+> = {
+  zip: { label: "ZIP code", pattern: /^\d{5}(-\d{4})?$/ },
+  ssn: { label: "SSN", pattern: /^\d{3}-\d{2}-\d{4}$/ },
+  date: {
+    label: "date",
+    pattern: /^(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2})$/,
+  },
+  email: { label: "email address", pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+  phone: {
+    label: "phone number",
+    pattern: /^\+?[\d\s().-]{7,}$/,
+  },
+};
+
+const isEmpty = (value: TemplateValue) =>
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const valueMatches = (value: TemplateValue, expected: string) => {
+  const wanted = expected.trim().toLowerCase();
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((v) => String(v).trim().toLowerCase() === wanted);
+};
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const checkFormat = (raw: string, format: string): string | null => {
+  const preset = FORMAT_PRESETS[format];
+  if (preset) {
+    return preset.pattern.test(raw.trim())
+      ? null
+      : `"${raw}" is not a valid ${preset.label}`;
+  }
+  try {
+    return new RegExp(format).test(raw.trim())
+      ? null
+      : `"${raw}" does not match ${format}`;
+  } catch {
+    return `Invalid format rule ${format}`;
+  }
+};
+
+const checkRules = (
+  field: ResolvedField,
+  rules: FieldRules,
+  fieldsByName: Record<string, ResolvedField>
+): string[] => {
+  const errors: string[] = [];
+
+  // Left behind when the other field is renamed or removed
+  if (rules.requiredIf && !fieldsByName[rules.requiredIf.field]) {
+    errors.push(
+      `Required-if rule names "${rules.requiredIf.field}", which is not a field of this template`
+    );
+  } else if (rules.requiredIf && isEmpty(field.value)) {
+    const { field: otherName, equals } = rules.requiredIf;
+    const other = fieldsByName[otherName];
+    const applies =
+      !isEmpty(other.value) &&
+      (equals === undefined || valueMatches(other.value, equals));
+    if (applies) {
+      errors.push(
+        equals === undefined
+          ? `Required when ${otherName} is filled in`
+          : `Required when ${otherName} is ${equals}`
+      );
+    }
+  }
+
+  if (isEmpty(field.value)) return errors;
+
+  if (rules.format && field.raw) {
+    const error = checkFormat(field.raw, rules.format);
+    if (error) errors.push(error);
+  }
+  if (typeof field.value === "number") {
+    if (rules.min !== undefined && field.value < rules.min) {
+      errors.push(`Below the minimum of ${rules.min}`);
+    }
+    if (rules.max !== undefined && field.value > rules.max) {
+      errors.push(`Above the maximum of ${rules.max}`);
+    }
+  }
+  return errors;
+};
+
+// Run the template's rules over a filled template. Failures are added to the
+// errors of the field they concern; a sum that doesn't match is reported on
+// its total, and duplicate names or a sum over fields the template lacks on
+// the template.
+export const validateTemplateResult = (
+  template: ExtractionTemplate,
+  result: TemplateResult
+): TemplateResult => {
+  const fields = result.fields.map((field) => ({
+    ...field,
+    errors: [...field.errors],
+  }));
+  const fieldsByName = Object.fromEntries(
+    fields.map((field) => [field.name, field])
+  );
+  const errors = [...result.errors];
+
+  // Checks can only refer to one of the fields sharing a name
+  const names = fields.map((field) => field.name);
+  Array.from(
+    new Set(names.filter((name, i) => names.indexOf(name) !== i))
+  ).forEach((name) => {
+    errors.push(`More than one field is named "${name}"`);
+  });
+
+  template.fields.forEach((templateField, index) => {
+    if (templateField.rules) {
+      fields[index].errors.push(
+        ...checkRules(fields[index], templateField.rules, fieldsByName)
+      );
+    }
+  });
+
+  (template.sumChecks || []).forEach((check) => {
+    const missing = [check.total, ...check.fields].filter(
+      (name) => !fieldsByName[name]
+    );
+    if (missing.length > 0) {
+      errors.push(
+        `Sum check on ${check.total} names ${missing
+          .map((name) => `"${name}"`)
+          .join(", ")}, not ${
+          missing.length === 1 ? "a field" : "fields"
+        } of this template`
+      );
+      return;
+    }
+
+    const total = fieldsByName[check.total];
+    if (typeof total.value !== "number") return;
+
+    const parts = check.fields.map((name) => fieldsByName[name]?.value);
+    if (parts.some((value) => typeof value !== "number")) return;
+
+    const sum = (parts as number[]).reduce((acc, value) => acc + value, 0);
+    if (Math.abs(sum - total.value) > (check.tolerance ?? 0.01)) {
+      total.errors.push(
+        `${check.fields.join(" + ")} add up to ${formatNumber(
+          sum
+        )}, not ${formatNumber(total.value)}`
+      );
+    }
+  });
+
+  return {
+    ...result,
+    fields,
+    errors,
+    isValid:
+      errors.length === 0 && fields.every((field) => field.errors.length === 0),
+  };
+};
+
+// Failing fields and problems with the template, as counted by the approval
+export const countValidationIssues = (result: TemplateResult | null) =>
+  result
+    ? result.errors.length +
+      result.fields.filter((field) => field.errors.length > 0).length
+    : 0;
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+// Failing fields by the chunk they were read from, for badges on the page
+// and in the content list. Fields that weren't found have no chunk.
+export const getIssuesByChunk = (
+  result: TemplateResult | null
+): Record<string, ValidationIssue[]> => {
+  const issues: Record<string, ValidationIssue[]> = {};
+  result?.fields.forEach(({ chunkId, name, errors }) => {
+    if (!chunkId || errors.length === 0) return;
+    issues[chunkId] = [
+      ...(issues[chunkId] || []),
+      ...errors.map((message) => ({ field: name, message })),
+    ];
+  });
+  return issues;
+};
+
+export const describeIssues = (issues: ValidationIssue[]) =>
+  issues.map((issue) => `${issue.field}: ${issue.message}`).join("\n");
+
+export interface Approval {
+  approvedAt: number;
+  // Given when approving with fields still failing validation
+  overrideReason: string | null;
+  issueCount: number;
+}
@@ -1,9 +1,13 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import Header from "@/components/Header";
-import Sidebar, { FileItem } from "@/components/Sidebar";
+import Sidebar from "@/components/Sidebar";
 import DocumentViewer from "@/components/DocumentViewer";
 import DocumentContent from "@/components/DocumentContent";
+import EditHistory from "@/components/EditHistory";
+import ApprovalControl from "@/components/ApprovalControl";
+import { useDocumentHistory } from "@/hooks/use-document-history";
+import { useExtractionTemplates } from "@/hooks/use-extraction-templates";
 import {
   processDocument,
   parseDocument,
@@ -12,7 +16,44 @@ import {
   DocumentChunk,
   DocumentResponse,
   ChatResponse,
+  Grounding,
 } from "@/services/documentService";
+import { ChunkType, getChunkTypeStyle } from "@/lib/chunkTypes";
+import { searchChunks } from "@/lib/search";
+import { RegionSelection } from "@/lib/geometry";
+import {
+  addChunk,
+  createChunkId,
+  deleteChunk,
+  getChunkCorrections,
+  getModifiedChunkIds,
+  mergeChunks,
+  moveChunk,
+  sequenceChunks,
+  revertChunk,
+  splitChunk,
+  stitchTables,
+  updateChunkText,
+  updateChunkType,
+  updateFormField,
+} from "@/lib/documentEdits";
+import { findContinuedTables } from "@/lib/tables";
+import { FormField } from "@/lib/formFields";
+import { applyTemplate } from "@/lib/templates";
+import {
+  EXAMPLE_FILES,
+  getDemoDocument,
+  getDemoNavigationState,
+} from "@/lib/demos";
+import { FileItem } from "@/lib/files";
+import { extractInvoice } from "@/lib/invoice";
+import { extractLabResults, getAbnormalResultsByChunk } from "@/lib/labReport";
+import {
+  Approval,
+  countValidationIssues,
+  getIssuesByChunk,
+  validateTemplateResult,
+} from "@/lib/validation";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft } from "lucide-react";
@@ -34,6 +75,10 @@ const Document = () => {
   const [documentData, setDocumentData] = useState<DocumentResponse | null>(
     null
   );
+  // The document as it came back from extraction, before any manual edits
+  const [extractedData, setExtractedData] = useState<DocumentResponse | null>(
+    null
+  );
   const [selectedChunkId, setSelectedChunkId] = useState<string | undefined>(
     undefined
   );
@@ -42,18 +87,111 @@ const Document = () => {
   const [processingError, setProcessingError] = useState<string | null>(null);
   const [pageCount, setPageCount] = useState(1);
   const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>([]);
+  // Chunk types hidden in both the viewer overlay and the block list
+  const [hiddenChunkTypes, setHiddenChunkTypes] = useState<ChunkType[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [regionSelection, setRegionSelection] =
+    useState<RegionSelection | null>(null);
+  // Chunks attached to the next chat message
+  const [chatContextChunks, setChatContextChunks] = useState<DocumentChunk[]>(
+    []
+  );
 
-  // Sample example files data
-  const exampleFiles: FileItem[] = [
-    { id: "invoice", name: "Invoice", type: "Tables, Multi-column" },
-    { id: "lab-report", name: "Lab Report", type: "Medical, Images" },
-    { id: "loan-form", name: "Loan Form", type: "Forms, Checkboxes" },
-    {
-      id: "performance-charts",
-      name: "Performance Charts",
-      type: "Charts, Reading Order",
-    },
-  ];
+  const searchHits = useMemo(
+    () => searchChunks(documentData?.chunks || [], searchQuery),
+    [documentData, searchQuery]
+  );
+  const editHistory = useDocumentHistory(documentData, setDocumentData);
+  const { undo, redo, reset: resetHistory } = editHistory;
+
+  // Leave undo in text fields to the browser
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const chunkCorrections = useMemo(
+    () =>
+      getChunkCorrections(
+        extractedData?.chunks || [],
+        documentData?.chunks || []
+      ),
+    [extractedData, documentData]
+  );
+  const { templates, saveTemplate, deleteTemplate } = useExtractionTemplates();
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const template = templates.find((t) => t.id === templateId) || null;
+  const templateResult = useMemo(
+    () =>
+      template && documentData
+        ? validateTemplateResult(
+            template,
+            applyTemplate(template, documentData)
+          )
+        : null,
+    [template, documentData]
+  );
+  const validationIssues = useMemo(
+    () => getIssuesByChunk(templateResult),
+    [templateResult]
+  );
+  const validationIssueCount = countValidationIssues(templateResult);
+
+  const [approval, setApproval] = useState<Approval | null>(null);
+
+  // An approval covers the document as it was, checked against the template
+  // as it was; editing either can add new failures
+  useEffect(() => {
+    setApproval(null);
+  }, [documentData, template]);
+
+  const continuedTables = useMemo(
+    () => findContinuedTables(documentData?.chunks || []),
+    [documentData]
+  );
+  const invoice = useMemo(
+    () => (documentData ? extractInvoice(documentData) : null),
+    [documentData]
+  );
+  const labResults = useMemo(
+    () => (documentData ? extractLabResults(documentData) : []),
+    [documentData]
+  );
+  const abnormalResults = useMemo(
+    () => getAbnormalResultsByChunk(labResults),
+    [labResults]
+  );
+
+  const modifiedChunkIds = useMemo(
+    () =>
+      getModifiedChunkIds(
+        extractedData?.chunks || [],
+        documentData?.chunks || []
+      ),
+    [extractedData, documentData]
+  );
+  const searchHitChunkIds = useMemo(
+    () => Array.from(new Set(searchHits.map((hit) => hit.chunkId))),
+    [searchHits]
+  );
 
   useEffect(() => {
     // If there's no file data in the location state, redirect to the upload page
@@ -77,6 +215,9 @@ const Document = () => {
 
         // Set the document data from the API response
         setDocumentData(response.data);
+        setExtractedData(response.data);
+        resetHistory();
+        setRegionSelection(null);
 
         // If the API returns a document ID, store it for future operations
         if (response.data.documentId) {
@@ -128,9 +269,20 @@ const Document = () => {
     };
 
     processUploadedDocument();
-  }, [file, fileItem, fileObjectUrl, navigate, isDemo, demoType]);
+  }, [file, fileItem, fileObjectUrl, navigate, isDemo, demoType, resetHistory]);
 
   const handleFileSelect = (file: FileItem) => {
+    // Examples with bundled data open in place of the current document
+    const demo = getDemoDocument(file.name);
+    if (demo && EXAMPLE_FILES.some((example) => example.id === file.id)) {
+      if (selectedFile?.id !== file.id) {
+        navigate("/document", {
+          replace: true,
+          state: getDemoNavigationState(demo),
+        });
+      }
+      return;
+    }
     setSelectedFile(file);
     // In a real application, this would trigger processing of the selected file
   };
@@ -156,6 +308,115 @@ const Document = () => {
     }
   };
 
+  const handleMoveChunk = (chunkId: string, beforeChunkId: string | null) => {
+    editHistory.execute("Move chunk", moveChunk(chunkId, beforeChunkId));
+  };
+
+  const handleChunkTextChange = (chunkId: string, text: string) => {
+    editHistory.execute("Edit text", updateChunkText(chunkId, text));
+  };
+
+  const handleChunkTableChange = (chunkId: string, text: string) => {
+    editHistory.execute("Edit table", updateChunkText(chunkId, text));
+  };
+
+  const handleFormFieldChange = (field: FormField, value: string | boolean) => {
+    editHistory.execute(
+      `Edit field "${field.label}"`,
+      updateFormField(field, value)
+    );
+  };
+
+  const handleChunkTypeChange = (chunkId: string, chunkType: ChunkType) => {
+    editHistory.execute(
+      `Change type to ${getChunkTypeStyle(chunkType).label}`,
+      updateChunkType(chunkId, chunkType)
+    );
+  };
+
+  const handleDeleteChunk = (chunkId: string) => {
+    editHistory.execute("Delete chunk", deleteChunk(chunkId));
+    if (selectedChunkId === chunkId) {
+      setSelectedChunkId(undefined);
+    }
+  };
+
+  const handleRevertChunk = (chunkId: string) => {
+    const extractedChunk = extractedData?.chunks.find(
+      (chunk) => chunk.chunk_id === chunkId
+    );
+    if (extractedChunk) {
+      editHistory.execute("Revert chunk", revertChunk(extractedChunk));
+    }
+  };
+
+  const handleAddChunk = (
+    chunkType: ChunkType,
+    text: string,
+    grounding: Grounding
+  ) => {
+    const chunkId = createChunkId();
+    editHistory.execute(
+      "Add chunk",
+      addChunk({
+        text,
+        chunk_type: chunkType,
+        chunk_id: chunkId,
+        grounding: [grounding],
+      })
+    );
+    setSelectedChunkId(chunkId);
+    toast.success("Chunk added");
+  };
+
+  const handleMergeChunks = (chunkIds: string[]) => {
+    const mergedChunkId = createChunkId();
+    editHistory.execute(
+      `Merge ${chunkIds.length} chunks`,
+      mergeChunks(chunkIds, mergedChunkId)
+    );
+    setSelectedChunkId(mergedChunkId);
+    setRegionSelection(null);
+    toast.success(`Merged ${chunkIds.length} chunks`);
+  };
+
+  const handleStitchTables = () => {
+    const stitched = continuedTables.map((chunkIds) => ({
+      chunkIds,
+      stitchedChunkId: createChunkId(),
+    }));
+    editHistory.execute(
+      stitched.length === 1
+        ? "Stitch table"
+        : `Stitch ${stitched.length} tables`,
+      (data) =>
+        stitched.reduce(
+          (result, { chunkIds, stitchedChunkId }) =>
+            stitchTables(chunkIds, stitchedChunkId)(result),
+          data
+        )
+    );
+    toast.success(
+      stitched.length === 1
+        ? "Stitched 1 table across pages"
+        : `Stitched ${stitched.length} tables across pages`
+    );
+  };
+
+  const handleSplitChunk = (chunkId: string, text: string, offset: number) => {
+    const chunkIds: [string, string] = [createChunkId(), createChunkId()];
+    editHistory.execute(
+      "Split chunk",
+      splitChunk(chunkId, text, offset, chunkIds)
+    );
+    setSelectedChunkId(chunkIds[0]);
+  };
+
+  const handleSequenceChunks = (chunkIds: string[]) => {
+    editHistory.execute("Reorder chunks", sequenceChunks(chunkIds));
+    toast.success("Reading order updated");
+  };
+
   const handleBackClick = () => {
     // Clean up object URLs before navigating away
     if (fileObjectUrl) {
@@ -177,6 +438,9 @@ const Document = () => {
       console.log("Document parsing response:", response);
 
       setDocumentData(response.data);
+      setExtractedData(response.data);
+      resetHistory();
+      setRegionSelection(null);
 
       // Update page count if available
       if (response.data.pageCount) {
@@ -229,8 +493,17 @@ const Document = () => {
     }
   };
 
+  const handleAskAboutRegion = (chunks: DocumentChunk[]) => {
+    setChatContextChunks(chunks);
+    if (!isChatActive) {
+      handleChatWithDocument();
+    }
+  };
+
   const handleSendChatMessage = async (
-    message: string
+    message: string,
+    _documentData?: DocumentResponse,
+    contextChunks?: DocumentChunk[]
   ): Promise<ChatResponse> => {
     if (!documentData) {
       toast.error(
@@ -240,7 +513,11 @@ const Document = () => {
     }
 
     try {
-      const response = await chatWithDocument(documentData, message);
+      const response = await chatWithDocument(
+        documentData,
+        message,
+        contextChunks
+      );
       console.log("Chat response:", response);
 
       // Update suggested questions from the response if available
@@ -282,15 +559,43 @@ const Document = () => {
           files={files}
           selectedFile={selectedFile}
           onFileSelect={handleFileSelect}
-          exampleFiles={exampleFiles}
+          exampleFiles={EXAMPLE_FILES}
         />
 
         {/* Main content area */}
         <div className="flex-1 flex flex-col">
-          <div className="p-2 border-b border-border">
+          <div className="p-2 border-b border-border flex items-center justify-between">
             <Button variant="ghost" size="sm" onClick={handleBackClick}>
               <ChevronLeft className="h-4 w-4 mr-1" /> Back
             </Button>
+            {documentData && (
+              <div className="flex items-center space-x-2">
+                <EditHistory
+                  entries={editHistory.entries}
+                  position={editHistory.position}
+                  onUndo={undo}
+                  onRedo={redo}
+                  onGoTo={editHistory.goTo}
+                />
+                <ApprovalControl
+                  approval={approval}
+                  issueCount={validationIssueCount}
+                  onApprove={(overrideReason) => {
+                    setApproval({
+                      approvedAt: Date.now(),
+                      overrideReason,
+                      issueCount: validationIssueCount,
+                    });
+                    toast.success(
+                      overrideReason
+                        ? "Approved with an override"
+                        : "Extraction approved"
+                    );
+                  }}
+                  onRevoke={() => setApproval(null)}
+                />
+              </div>
+            )}
           </div>
 
           <div className="flex-1 grid grid-cols-1 md:grid-cols-2 overflow-hidden">
@@ -299,12 +604,25 @@ const Document = () => {
               <DocumentViewer
                 documentUrl={fileObjectUrl}
                 documentName={selectedFile?.name || ""}
+                documentType={file?.type}
                 pageCount={pageCount}
                 chunks={documentData?.chunks || []}
+                errors={documentData?.errors || []}
                 isProcessing={isProcessing}
                 processingError={processingError}
                 highlightedChunkId={selectedChunkId}
                 onChunkClick={handleChunkSelect}
+                hiddenChunkTypes={hiddenChunkTypes}
+                onHiddenChunkTypesChange={setHiddenChunkTypes}
+                searchHitChunkIds={searchHitChunkIds}
+                selectedRegion={regionSelection}
+                onRegionSelect={setRegionSelection}
+                onAskAboutRegion={handleAskAboutRegion}
+                onSequenceChunks={handleSequenceChunks}
+                onMergeChunks={handleMergeChunks}
+                onAddChunk={handleAddChunk}
+                validationIssues={validationIssues}
+                abnormalResults={abnormalResults}
               />
             </div>
 
@@ -323,6 +641,36 @@ const Document = () => {
               documentId={documentId}
               documentData={documentData}
               suggestedQuestions={suggestedQuestions}
+              hiddenChunkTypes={hiddenChunkTypes}
+              onHiddenChunkTypesChange={setHiddenChunkTypes}
+              searchQuery={searchQuery}
+              onSearchQueryChange={setSearchQuery}
+              searchHits={searchHits}
+              attachedChunks={chatContextChunks}
+              onClearAttachedChunks={() => setChatContextChunks([])}
+              onMoveChunk={handleMoveChunk}
+              onChunkTextChange={handleChunkTextChange}
+              onChunkTableChange={handleChunkTableChange}
+              continuedTableCount={continuedTables.length}
+              onStitchTables={handleStitchTables}
+              onFormFieldChange={handleFormFieldChange}
+              selectedRegion={regionSelection}
+              templates={templates}
+              template={template}
+              templateResult={templateResult}
+              onTemplateSelect={setTemplateId}
+              onTemplateSave={saveTemplate}
+              onTemplateDelete={deleteTemplate}
+              validationIssues={validationIssues}
+              invoice={invoice}
+              labResults={labResults}
+              chunkCorrections={chunkCorrections}
+              onMergeChunks={handleMergeChunks}
+              onSplitChunk={handleSplitChunk}
+              onChunkTypeChange={handleChunkTypeChange}
+              onDeleteChunk={handleDeleteChunk}
+              onRevertChunk={handleRevertChunk}
+              modifiedChunkIds={modifiedChunkIds}
             />
           </div>
         </div>
@@ -3,18 +3,13 @@ import { useNavigate } from "react-router-dom";
 import Header from "@/components/Header";
 import FileUploader from "@/components/FileUploader";
 import { toast } from "sonner";
-import { FileItem } from "@/components/Sidebar";
-
-const exampleFiles: { id: string; name: string; type: string }[] = [
-  { id: "invoice", name: "Invoice", type: "Tables, Multi-column" },
-  { id: "lab-report", name: "Lab Report", type: "Medical, Images" },
-  { id: "loan-form", name: "Loan Form", type: "Forms, Checkboxes" },
-  {
-    id: "performance-charts",
-    name: "Performance Charts",
-    type: "Charts, Reading Order",
-  },
-];
+import { FileItem } from "@/lib/files";
+import {
+  DEMO_DOCUMENTS,
+  EXAMPLE_FILES,
+  getDemoDocument,
+  getDemoNavigationState,
+} from "@/lib/demos";
 
 const Upload = () => {
   const [isUploading, setIsUploading] = useState(false);
@@ -72,51 +67,24 @@ const Upload = () => {
     }
   };
 
-  const handleExampleFileClick = async (file: {
-    id: string;
-    name: string;
-    type: string;
-  }) => {
+  const handleExampleFileClick = async (file: FileItem) => {
     setIsUploading(true);
 
     try {
-      // Handle "Loan Form" example specifically
-      if (file.name === "Loan Form") {
-        // Use demo image for "Loan Form"
-        const demoImageUrl = "/loan-form-sample.jpg";
-
-        // Create file item for sidebar
-        const fileItem: FileItem = {
-          id: file.id,
-          name: file.name,
-          type: file.type,
-          thumbnail: demoImageUrl,
-        };
-
+      const demo = getDemoDocument(file.name);
+      if (demo) {
         toast.success(
-          "Loading Loan Form example. This will use demo data without making API calls."
+          `Loading ${demo.name} example. This will use demo data without making API calls.`
         );
 
-        // Create a minimal File object to pass to the document page
-        // Note: This isn't a real file, but it provides the required interface
-        const dummyFile = new File([""], "loan-form-sample.jpg", {
-          type: "image/jpeg",
-        });
-
         // Navigate to document page with demo flag
-        navigate("/document", {
-          state: {
-            file: dummyFile,
-            fileItem,
-            fileObjectUrl: demoImageUrl,
-            isDemo: true,
-            demoType: file.name,
-          },
-        });
+        navigate("/document", { state: getDemoNavigationState(demo) });
       } else {
         // For other examples we can implement similar mock data
         toast.info(
-          "Example file demo is only available for 'Loan Form' at this time."
+          `Example file demo is only available for ${DEMO_DOCUMENTS.map(
+            (d) => `'${d.name}'`
+          ).join(", ")} at this time.`
         );
         setIsUploading(false);
       }
@@ -162,7 +130,7 @@ const Upload = () => {
               Example files
             </h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-              {exampleFiles.map((file, index) => (
+              {EXAMPLE_FILES.map((file, index) => (
                 <div
                   key={index}
                   className="border rounded-lg p-4 hover:border-primary hover:bg-muted/50 transition-all cursor-pointer"
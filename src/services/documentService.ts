@@ -1,4 +1,5 @@
 import { toast } from "sonner";
+import { DemoDocument, getDemoDocument } from "@/lib/demos";
 
 export interface BoxCoordinates {
   l: number;
@@ -116,19 +117,19 @@ const processTextWithMath = (text: string): string => {
   return processed;
 };
 
-// Get Demo Form Data for "Loan Form" example
-const getLoanFormDemoData = async (): Promise<ApiResponse> => {
+// Get the bundled extraction of an example document
+const getDemoData = async (demo: DemoDocument): Promise<ApiResponse> => {
   try {
-    // Fetch the demo_form.json file
-    const response = await fetch("/demo_form.json");
+    // Fetch the demo's JSON fixture
+    const response = await fetch(demo.dataUrl);
     if (!response.ok) {
-      throw new Error("Failed to load demo form data");
+      throw new Error(`Failed to load ${demo.name} demo data`);
     }
 
     const demoData = await response.json();
 
     // Create a mock document ID
-    const mockDocumentId = "demo-loan-form-" + Date.now();
+    const mockDocumentId = `demo-${demo.id}-${Date.now()}`;
 
     // Add document ID to the response
     demoData.documentId = mockDocumentId;
@@ -155,7 +156,7 @@ const getLoanFormDemoData = async (): Promise<ApiResponse> => {
 
     return { data: demoData };
   } catch (error) {
-    console.error("Error loading demo form data:", error);
+    console.error(`Error loading ${demo.name} demo data:`, error);
     throw error;
   }
 };
@@ -166,10 +167,11 @@ export const processDocument = async (
   isDemo: boolean = false,
   demoType: string = ""
 ): Promise<ApiResponse> => {
-  // Check if this is a demo request for "Loan Form"
-  if (isDemo && demoType === "Loan Form") {
-    toast.success("Loading Loan Form demo data...");
-    return await getLoanFormDemoData();
+  // Demo requests are answered from the example's bundled data
+  const demo = isDemo ? getDemoDocument(demoType) : null;
+  if (demo) {
+    toast.success(`Loading ${demo.name} demo data...`);
+    return await getDemoData(demo);
   }
 
   try {
@@ -368,7 +370,9 @@ export const parseDocument = async (
 
 export const chatWithDocument = async (
   documentData: DocumentResponse,
-  message: string
+  message: string,
+  // Chunks the question is specifically about, e.g. a region of a page
+  contextChunks?: DocumentChunk[]
 ): Promise<ChatResponse> => {
   try {
     // Call the backend endpoint which will use Gemini API for large context window
@@ -384,6 +388,7 @@ export const chatWithDocument = async (
       body: JSON.stringify({
         documentData,
         message,
+        contextChunks,
       }),
       credentials: "omit",
     });